@@ -1,9 +1,107 @@
 export { createEngine } from "./engine"
+export { runSimulation } from "./simulation/simulator"
+export type {
+  SimulationContent,
+  SimulationContext,
+  SimulationOptions,
+  SimulationPurchase,
+  SimulationSample,
+  SimulationStrategy,
+  SimulationTimeline,
+} from "./simulation/simulator"
+export {
+  bestOperationStrategy,
+  cheapestUpgradeStrategy,
+  clickStrategy,
+  greedyCheapestWorkerStrategy,
+  prestigeStrategy,
+} from "./simulation/strategies"
+export { BigNumber, bigNumberSchema } from "./stores/BigNumber"
+export type { BigNumberLike, BigNumberSnapshot, NumberMode } from "./stores/BigNumber"
+export { geometricCost, MAX_BULK_PURCHASE } from "./stores/BulkPurchase"
+export type { BulkAmount, PurchasePreview } from "./stores/BulkPurchase"
+export { ManualClock, SystemClock } from "./stores/Clock"
+export type { Clock, TimerId } from "./stores/Clock"
+export { configSchema } from "./stores/ConfigStore"
+export type { EngineConfig, EngineConfigOverrides } from "./stores/ConfigStore"
 export type { ConfirmationRequest } from "./stores/ConfirmationStore"
-export type { Operation } from "./stores/OperationsStore"
+export {
+  CONTENT_KEYS,
+  ContentPackProvider,
+  createContentLoader,
+  InlineContentProvider,
+  OPTIONAL_CONTENT_KEYS,
+  UrlContentProvider,
+} from "./stores/ContentProvider"
+export type { ContentKey, ContentProvider, DataUrls, GameContent, OptionalContentKey } from "./stores/ContentProvider"
+export { validateContent } from "./stores/ContentValidation"
+export type { ContentIssue, ContentIssueCode, ContentValidationResult } from "./stores/ContentValidation"
+export { EngineEvents } from "./stores/EngineEvents"
+export type { EngineEvent, EngineEventListener, EngineEventMap } from "./stores/EngineEvents"
+export {
+  DURATION_STYLES,
+  formatDuration,
+  formatNumber,
+  NUMBER_NOTATIONS,
+  SHORT_SUFFIXES,
+} from "./stores/Formatting"
+export type { DurationFormatOptions, DurationStyle, NumberFormatOptions, NumberNotation } from "./stores/Formatting"
+export {
+  contentTextKey,
+  getLocalizationKeys,
+  localeSchema,
+  localesSchema,
+  LOCALIZED_FIELDS,
+} from "./stores/LocalizationStore"
+export type { Locales, LocalizableContent, LocalizableContentKey } from "./stores/LocalizationStore"
+export { managerSchema, managersSchema } from "./stores/ManagersStore"
+export type { Manager, Managers } from "./stores/ManagersStore"
+export { MULTIPLIER_SOURCES } from "./stores/Multipliers"
+export type {
+  MultiplierBreakdown,
+  MultiplierContribution,
+  MultiplierGroupBreakdown,
+  MultiplierLimit,
+  MultiplierLimits,
+  MultiplierSource,
+  MultiplierSourceBreakdown,
+} from "./stores/Multipliers"
+export type { OfflineReport } from "./stores/OfflineStore"
+export type { Operation, OperationPhase } from "./stores/OperationsStore"
 export type { PrestigeUpgrade } from "./stores/PrestigeStore"
+export type { Eta, NextLevelEta, NextPrestigePointEta, OperationsEta } from "./stores/ProjectionsStore"
+export { resourceDefinitionSchema, resourceDefinitionsSchema } from "./stores/ResourcesStore"
+export type { ResourceDefinition, ResourceDefinitions } from "./stores/ResourcesStore"
 export { RootStore } from "./stores/RootStore"
+export type { EnginePhase } from "./stores/RootStore"
 export type { RootStoreOptions } from "./stores/RootStoreOptions"
+export {
+  decodeSaveString,
+  encodeSaveString,
+  SAVE_STRING_FORMAT,
+  SaveImportError,
+} from "./stores/SaveCodec"
+export {
+  compareVersions,
+  ENGINE_SAVE_VERSION,
+  NewerSaveVersionError,
+  SaveMigrationError,
+  SaveMigrator,
+} from "./stores/SaveMigrator"
+export type { RawSave, SaveMigration, SaveMigrationReport } from "./stores/SaveMigrator"
+export { salvageSave } from "./stores/SaveRecovery"
+export type { SaveRecoveryReport } from "./stores/SaveRecovery"
+export { DEFAULT_SLOT_ID } from "./stores/SaveSlotsStore"
+export type { SaveSlot, SaveSlotMetadata } from "./stores/SaveSlotsStore"
 export * from "./stores/shared"
+export {
+  createDefaultStorage,
+  IndexedDBStorageAdapter,
+  LocalStorageAdapter,
+  MemoryStorageAdapter,
+} from "./stores/StorageAdapter"
+export type { StorageAdapter } from "./stores/StorageAdapter"
+export { formatThemeText, THEME_MESSAGES, THEME_TERMS, themeManifestSchema } from "./stores/ThemeStore"
+export type { ThemeLabel, ThemeManifest, ThemeMessage, ThemeTerm, ThemeTermLabel } from "./stores/ThemeStore"
 export type { ToastMessage } from "./stores/ToastStore"
 export type { Upgrade } from "./stores/UpgradesStore"
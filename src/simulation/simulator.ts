@@ -0,0 +1,168 @@
+import type { NumberMode } from "../stores/BigNumber"
+import type { EngineConfigOverrides } from "../stores/ConfigStore"
+import type { GameContent } from "../stores/ContentProvider"
+import type { Resources } from "../stores/shared"
+
+import { ManualClock } from "../stores/Clock"
+import { RootStore } from "../stores/RootStore"
+import { MemoryStorageAdapter } from "../stores/StorageAdapter"
+
+// Raw JSON content for every data file, validated by the stores as usual
+export type SimulationContent = GameContent
+
+export interface SimulationContext {
+  seconds: number // Simulated time since the start
+  stepSeconds: number // Length of one round
+}
+
+export interface SimulationStrategy {
+  name: string
+  act: (engine: RootStore, context: SimulationContext) => void
+}
+
+export interface SimulationOptions {
+  content: SimulationContent
+  strategies: SimulationStrategy[]
+  durationSeconds: number
+  sampleIntervalSeconds?: number // defaults to 60
+  // Tweak balance constants before the first round
+  configure?: (engine: RootStore) => void
+  // Config overrides applied before any store reads the config, unlike changes made in configure
+  config?: EngineConfigOverrides
+  // Number mode of the simulated engine, "big" for late-game balance past Number.MAX_SAFE_INTEGER
+  numberMode?: NumberMode
+  // Stops the simulation early once it returns true
+  until?: (engine: RootStore, context: SimulationContext) => boolean
+}
+
+export interface SimulationSample {
+  seconds: number
+  resources: Resources // Number views, capped at Number.MAX_VALUE in "big" number mode
+  energyPerRound: number
+  outputPerRound: number
+  moneyPerRound: number
+}
+
+export interface SimulationPurchase {
+  seconds: number
+  type: "worker" | "upgrade"
+  id: string
+  count: number
+}
+
+export interface SimulationTimeline {
+  durationSeconds: number
+  // Time to unlock each level, null if never reached
+  levels: { index: number, id: string, name: string, seconds: number | null }[]
+  firstPrestigeSeconds: number | null
+  prestiges: { seconds: number, points: number }[]
+  samples: SimulationSample[]
+  purchases: SimulationPurchase[]
+}
+
+// Number views of every resource, declared ones included
+function resourceValues(engine: RootStore): Resources {
+  const values: Resources = { energy: 0, output: 0, reputation: 0, money: 0 }
+  for (const resource of engine.resources.resourceIds) {
+    values[resource] = engine.resources.getAmount(resource).toNumber()
+  }
+  return values
+}
+
+// Plays the game headlessly on a ManualClock, one round at a time, letting strategies act after each round
+export async function runSimulation(options: SimulationOptions): Promise<SimulationTimeline> {
+  const { content, strategies, durationSeconds, sampleIntervalSeconds = 60 } = options
+
+  const clock = new ManualClock(0)
+  const engine = new RootStore({
+    content,
+    ...(options.config && { config: options.config }),
+    ...(options.numberMode && { numberMode: options.numberMode }),
+    storage: new MemoryStorageAdapter(),
+    clock,
+  })
+
+  // Nothing advances the clock yet, so there is no point in waiting for retries
+  try {
+    await engine.init({ retries: 0 })
+  }
+  catch (e) {
+    const failed = engine.contentErrors.map(error => error.key)
+    throw new Error(`Simulation content failed to load: ${failed.join(", ")}`, { cause: e })
+  }
+
+  options.configure?.(engine)
+
+  const stepMs = engine.config.gameRoundInterval
+  const stepSeconds = stepMs / 1000
+  const timeline: SimulationTimeline = {
+    durationSeconds: 0,
+    levels: engine.level.levels.map((level, index) => ({ index, id: level.id, name: level.name, seconds: null })),
+    firstPrestigeSeconds: null,
+    prestiges: [],
+    samples: [],
+    purchases: [],
+  }
+
+  const recordLevels = (seconds: number) => {
+    for (const level of engine.level.unlockedLevels) {
+      const entry = timeline.levels.find(entry => entry.id === level.id)
+      if (entry && entry.seconds === null) {
+        entry.seconds = seconds
+      }
+    }
+  }
+  recordLevels(0)
+
+  let context: SimulationContext = { seconds: 0, stepSeconds }
+  engine.events.on("workerHired", ({ workerId, count }) => {
+    timeline.purchases.push({ seconds: context.seconds, type: "worker", id: workerId, count })
+  })
+  engine.events.on("upgradePurchased", ({ upgradeId, count }) => {
+    timeline.purchases.push({ seconds: context.seconds, type: "upgrade", id: upgradeId, count })
+  })
+  engine.events.on("prestigeExecuted", ({ pointsEarned }) => {
+    timeline.prestiges.push({ seconds: context.seconds, points: pointsEarned })
+    timeline.firstPrestigeSeconds ??= context.seconds
+  })
+
+  let nextSampleAt = 0
+  for (let elapsedMs = 0; elapsedMs < durationSeconds * 1000;) {
+    clock.advance(stepMs)
+    elapsedMs += stepMs
+    context = { seconds: elapsedMs / 1000, stepSeconds }
+
+    engine.game.round()
+
+    // Accept level-up popups, the selection happens in a promise callback
+    if (engine.confirmation.currentConfirmation) {
+      engine.confirmation.confirmCurrent()
+      await Promise.resolve()
+    }
+
+    for (const strategy of strategies) {
+      strategy.act(engine, context)
+    }
+
+    recordLevels(context.seconds)
+
+    if (context.seconds >= nextSampleAt) {
+      timeline.samples.push({
+        seconds: context.seconds,
+        resources: resourceValues(engine),
+        energyPerRound: engine.resources.energyPerRound,
+        outputPerRound: engine.resources.outputPerRound,
+        moneyPerRound: engine.resources.moneyPerRound,
+      })
+      nextSampleAt += sampleIntervalSeconds
+    }
+
+    timeline.durationSeconds = context.seconds
+    if (options.until?.(engine, context)) {
+      break
+    }
+  }
+
+  engine.dispose()
+  return timeline
+}
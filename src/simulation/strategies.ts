@@ -0,0 +1,117 @@
+import type { Operation } from "../stores/OperationsStore"
+
+import type { Upgrade } from "../stores/UpgradesStore"
+import type { Worker } from "../stores/WorkersStore"
+import type { SimulationStrategy } from "./simulator"
+
+// Guards against zero-cost content buying forever within a single round
+const MAX_PURCHASES_PER_ROUND = 1000
+
+// Clicks N times per second while there is enough energy
+export function clickStrategy(clicksPerSecond: number): SimulationStrategy {
+  let pendingClicks = 0
+  return {
+    name: `click ${clicksPerSecond}/s`,
+    act(engine, { stepSeconds }) {
+      pendingClicks += clicksPerSecond * stepSeconds
+      for (; pendingClicks >= 1; pendingClicks--) {
+        if (engine.resources.energy < engine.game.energyCost) {
+          pendingClicks = 0
+          break
+        }
+        engine.game.click()
+      }
+    },
+  }
+}
+
+// Hires the cheapest unlocked worker for as long as money allows
+export function greedyCheapestWorkerStrategy(): SimulationStrategy {
+  return {
+    name: "greedy cheapest worker",
+    act(engine) {
+      for (let i = 0; i < MAX_PURCHASES_PER_ROUND; i++) {
+        let cheapest: Worker | undefined
+        let cheapestCost = Infinity
+        for (const worker of engine.workers.unlockedWorkers) {
+          const cost = engine.workers.calculateWorkerCost(worker)
+          if (cost < cheapestCost) {
+            cheapest = worker
+            cheapestCost = cost
+          }
+        }
+        if (!cheapest || cheapestCost > engine.resources.money) {
+          return
+        }
+        engine.workers.hireWorker(cheapest)
+      }
+    },
+  }
+}
+
+// Buys purchasable upgrades, cheapest total cost first
+export function cheapestUpgradeStrategy(): SimulationStrategy {
+  return {
+    name: "cheapest upgrade",
+    act(engine) {
+      const totalCost = (upgrade: Upgrade) => {
+        const level = engine.upgrades.unlockedUpgrades[upgrade.id] ?? 0
+        const base = Object.values(upgrade.cost).reduce<number>((sum, value) => sum + (value ?? 0), 0)
+        return base * upgrade.costMultiplier ** level
+      }
+      for (let i = 0; i < MAX_PURCHASES_PER_ROUND; i++) {
+        const purchasable = engine.upgrades.upgrades
+          .filter(upgrade => engine.upgrades.canPurchaseUpgrade(upgrade))
+          .sort((a, b) => totalCost(a) - totalCost(b))
+        const [next] = purchasable
+        if (!next) {
+          return
+        }
+        engine.upgrades.purchaseUpgrade(next)
+      }
+    },
+  }
+}
+
+// Claims finished operations and conducts every idle affordable one, highest reputation reward first
+export function bestOperationStrategy(): SimulationStrategy {
+  return {
+    name: "best operation",
+    act(engine) {
+      const { operations } = engine
+      for (const operation of operations.operations) {
+        if (operations.operationsClaimable.has(operation.id)) {
+          operations.claimOperation(operation)
+        }
+      }
+
+      const byReward = (a: Operation, b: Operation) => b.rewards.reputation - a.rewards.reputation
+      for (const operation of [...operations.availableOperations].sort(byReward)) {
+        const busy = operations.operationsInProgress.has(operation.id)
+          || operations.operationsInCooldown.has(operation.id)
+          || operations.operationsClaimable.has(operation.id)
+        if (busy || !operations.canAffordOperation(operation)) {
+          continue
+        }
+        try {
+          operations.conductOperation(operation)
+        }
+        catch {
+          // canAffordOperation ignores cost reductions, so the rounded cost may still be out of reach
+        }
+      }
+    },
+  }
+}
+
+// Prestiges as soon as the run would award at least minPoints breakthrough points
+export function prestigeStrategy(minPoints: number): SimulationStrategy {
+  return {
+    name: `prestige at ${minPoints} BP`,
+    act(engine) {
+      if (engine.prestige.canPrestige() && engine.prestige.calculatePotentialBP() >= minPoints) {
+        engine.prestige.executePrestige()
+      }
+    },
+  }
+}
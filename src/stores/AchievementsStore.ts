@@ -1,21 +1,27 @@
+import type { BigNumberLike } from "./BigNumber"
+import type { ContentLoadError } from "./ContentProvider"
+import type { MultiplierContribution } from "./Multipliers"
 import type { RootStore } from "./RootStore"
-import type { AchievementsSnapshot, FlatGainsMap, MultipliersMap, Resource, Resources } from "./shared"
+import type { AchievementsSnapshot, FlatGainsMap, MultipliersMap, Resource, ResourceAmounts } from "./shared"
 
 import { makeAutoObservable } from "mobx"
 import { z } from "zod"
+import { BigNumber, fitResourceAmount, parseResourceAmount } from "./BigNumber"
+import { toContentLoadError } from "./ContentProvider"
+import { combineContributions, createContribution } from "./Multipliers"
 import {
 
   achievementsSnapshotSchema,
   bonusSchema,
   createFlatGainsMap,
-  createMultipliersMap,
+  createResourceAmounts,
+  fromResourcesSnapshot,
 
   nonNegativeIntegerSchema,
   nonNegativeNumberSchema,
 
-  resourceRateSchema,
-
   resourceSchema,
+  toResourcesSnapshot,
 } from "./shared"
 
 export const achievementConditionSchema = z.discriminatedUnion("type", [
@@ -43,7 +49,7 @@ export const achievementConditionSchema = z.discriminatedUnion("type", [
   }),
   z.object({
     type: z.literal("resourceRate"),
-    resource: resourceRateSchema,
+    resource: resourceSchema, // Any resource with passive production
     rate: nonNegativeNumberSchema,
   }),
   z.object({
@@ -90,11 +96,12 @@ export type Achievement = z.infer<typeof achievementSchema>
 export class AchievementsStore {
   constructor(private root: RootStore) {
     makeAutoObservable(this)
-    this.loadAchievements()
   }
 
   state: "pending" | "ready" | "error" = "pending"
 
+  loadError: ContentLoadError | null = null
+
   achievements: Achievement[] = []
 
   get mappedAchievements(): Map<string, Achievement> {
@@ -110,22 +117,25 @@ export class AchievementsStore {
       const response: unknown = yield dataSource.fetchAchievements()
       this.achievements = z.array(achievementSchema).parse(response)
       this.state = "ready"
+      this.loadError = null
     }
     catch (e) {
       console.error("Failed to load achievements:", e)
-      this.state = "error"
+      this.loadError = toContentLoadError("achievements", e)
+      if (this.state !== "ready") {
+        this.state = "error"
+      }
     }
   }
 
-  totalResources: Resources = {
-    energy: 0,
-    output: 0,
-    reputation: 0,
-    money: 0,
-  }
+  totalResources: ResourceAmounts = createResourceAmounts()
 
-  addResourceTotals(key: Resource, amount: number) {
-    this.totalResources[key] += nonNegativeIntegerSchema.parse(amount)
+  addResourceTotals(key: Resource, amount: BigNumberLike) {
+    const { numberMode } = this.root
+    this.totalResources[key] = fitResourceAmount(
+      (this.totalResources[key] ?? BigNumber.ZERO).add(parseResourceAmount(amount, numberMode)),
+      numberMode,
+    )
     this.root.sync.markDirty("achievements")
   }
 
@@ -166,21 +176,26 @@ export class AchievementsStore {
       this.unlockedAchievements.add(achievement.id)
       this.root.sync.markDirty("achievements")
       this.root.toast.showAchievementToast(achievement)
+      this.root.events.emit("achievementUnlocked", { achievementId: achievement.id })
     }
   }
 
-  get multipliers(): MultipliersMap {
-    const map = createMultipliersMap(1.0)
+  get multiplierContributions(): MultiplierContribution[] {
+    const contributions: MultiplierContribution[] = []
     for (const id of this.unlockedAchievements) {
       const achievement = this.mappedAchievements.get(id)
       if (!achievement || !achievement.reward) {
         continue
       }
       if (achievement.reward.type === "multiplier") {
-        map.set(achievement.reward.target, map.get(achievement.reward.target)! * achievement.reward.value)
+        contributions.push(createContribution("achievements", achievement.reward.target, id, achievement.reward))
       }
     }
-    return map
+    return contributions
+  }
+
+  get multipliers(): MultipliersMap {
+    return combineContributions(this.multiplierContributions)
   }
 
   get flatGains(): FlatGainsMap {
@@ -200,7 +215,7 @@ export class AchievementsStore {
   checkAchievement(condition: AchievementCondition): boolean {
     switch (condition.type) {
       case "resourceTotal":
-        return condition.amount <= this.totalResources[condition.resource]
+        return (this.totalResources[condition.resource] ?? BigNumber.ZERO).gte(condition.amount)
       case "levelUnlocked":
         return condition.level <= this.maxLevelReached
       case "operationsCompleted":
@@ -209,18 +224,8 @@ export class AchievementsStore {
         return condition.level <= (this.root.operations.operationsFinished[condition.operationId] ?? 0)
       case "workerCount":
         return condition.count <= this.totalWorkers
-      case "resourceRate": {
-        let rate = 0
-        switch (condition.resource) {
-          case "energy":
-            rate = this.root.resources.energyPerRound
-            break
-          case "money":
-            rate = this.root.resources.moneyPerRound
-            break
-        }
-        return condition.rate <= rate
-      }
+      case "resourceRate":
+        return (this.root.resources.ratesPerRound[condition.resource] ?? BigNumber.ZERO).gte(condition.rate)
       case "prestigeCount":
         return condition.count <= this.root.prestige.prestigeCount
       case "playTime":
@@ -241,7 +246,7 @@ export class AchievementsStore {
 
   getSnapshot(): AchievementsSnapshot {
     return {
-      totalResources: this.totalResources,
+      totalResources: toResourcesSnapshot(this.totalResources, this.root.numberMode),
       totalWorkers: this.totalWorkers,
       totalArticlesOpened: this.totalArticlesOpened,
       maxLevelReached: this.maxLevelReached,
@@ -252,7 +257,7 @@ export class AchievementsStore {
 
   loadSnapshot(snapshot: { achievements: AchievementsSnapshot }) {
     const validated = achievementsSnapshotSchema.parse(snapshot.achievements)
-    this.totalResources = validated.totalResources
+    this.totalResources = fromResourcesSnapshot(validated.totalResources, this.root.numberMode)
     this.totalWorkers = validated.totalWorkers
     this.totalArticlesOpened = validated.totalArticlesOpened
     this.maxLevelReached = validated.maxLevelReached
@@ -261,12 +266,7 @@ export class AchievementsStore {
   }
 
   reset() {
-    this.totalResources = {
-      energy: 0,
-      output: 0,
-      reputation: 0,
-      money: 0,
-    }
+    this.totalResources = createResourceAmounts()
     this.totalWorkers = 0
     this.totalArticlesOpened = 0
     this.maxLevelReached = 0
@@ -0,0 +1,285 @@
+import { z } from "zod"
+
+// How resource amounts are held: "standard" keeps them within Number.MAX_SAFE_INTEGER and saves them as
+// integers, "big" lifts the limit and saves amounts beyond it as mantissa/exponent strings like "1.5e400"
+export type NumberMode = "standard" | "big"
+
+export type BigNumberLike = number | string | BigNumber
+
+// Below this values are held as plain numbers, so arithmetic on them matches number arithmetic exactly
+const PLAIN_LIMIT = 1e300
+
+// Past this exponent difference the smaller operand can't change the larger one's mantissa
+const MAX_SIGNIFICANT_DIGITS = 17
+
+const BIG_NUMBER_PATTERN = /^(-?\d+(?:\.\d+)?)(?:e([+-]?\d+))?$/i
+
+// Immutable number of any magnitude, worth mantissa * 10 ** exponent. Values below 1e300 keep
+// exponent 0 and the plain value as mantissa, larger ones are normalized to 1 <= |mantissa| < 10.
+export class BigNumber {
+  static readonly ZERO = new BigNumber(0, 0)
+  static readonly ONE = new BigNumber(1, 0)
+
+  private constructor(readonly mantissa: number, readonly exponent: number) {}
+
+  static from(value: BigNumberLike): BigNumber {
+    if (value instanceof BigNumber) {
+      return value
+    }
+    if (typeof value === "string") {
+      return BigNumber.parse(value)
+    }
+    if (!Number.isFinite(value)) {
+      throw new TypeError(`Cannot create a BigNumber from ${value}`)
+    }
+    return BigNumber.normalize(value, 0)
+  }
+
+  // Reads what toString() writes, e.g. "12345" or "1.5e400"
+  static parse(text: string): BigNumber {
+    const match = BIG_NUMBER_PATTERN.exec(text.trim())
+    if (!match) {
+      throw new TypeError(`Invalid BigNumber "${text}"`)
+    }
+    return BigNumber.normalize(Number(match[1]), Number(match[2] ?? 0))
+  }
+
+  static max(a: BigNumberLike, b: BigNumberLike): BigNumber {
+    const left = BigNumber.from(a)
+    return left.gte(b) ? left : BigNumber.from(b)
+  }
+
+  static min(a: BigNumberLike, b: BigNumberLike): BigNumber {
+    const left = BigNumber.from(a)
+    return left.lte(b) ? left : BigNumber.from(b)
+  }
+
+  private static normalize(mantissa: number, exponent: number): BigNumber {
+    if (mantissa === 0) {
+      return BigNumber.ZERO
+    }
+    if (exponent === 0 && Math.abs(mantissa) < PLAIN_LIMIT) {
+      return new BigNumber(mantissa, 0)
+    }
+    const shift = Math.floor(Math.log10(Math.abs(mantissa)))
+    const scaled = mantissa / 10 ** shift
+    const total = exponent + shift
+    if (total < Math.log10(PLAIN_LIMIT)) {
+      return new BigNumber(scaled * 10 ** total, 0)
+    }
+    // log10 rounding can leave the mantissa just outside [1, 10)
+    if (Math.abs(scaled) >= 10) {
+      return new BigNumber(scaled / 10, total + 1)
+    }
+    if (Math.abs(scaled) < 1) {
+      return new BigNumber(scaled * 10, total - 1)
+    }
+    return new BigNumber(scaled, total)
+  }
+
+  // Mantissa and exponent with 1 <= |mantissa| < 10, for plain values as well
+  private get scientific(): [mantissa: number, exponent: number] {
+    if (this.exponent !== 0 || this.mantissa === 0) {
+      return [this.mantissa, this.exponent]
+    }
+    const exponent = Math.floor(Math.log10(Math.abs(this.mantissa)))
+    return [this.mantissa / 10 ** exponent, exponent]
+  }
+
+  private get isPlain(): boolean {
+    return this.exponent === 0
+  }
+
+  get sign(): number {
+    return Math.sign(this.mantissa)
+  }
+
+  isZero(): boolean {
+    return this.mantissa === 0
+  }
+
+  add(other: BigNumberLike): BigNumber {
+    const b = BigNumber.from(other)
+    if (this.isPlain && b.isPlain) {
+      return BigNumber.normalize(this.mantissa + b.mantissa, 0)
+    }
+    if (this.isZero()) {
+      return b
+    }
+    if (b.isZero()) {
+      return this
+    }
+    const [ma, ea] = this.scientific
+    const [mb, eb] = b.scientific
+    if (ea - eb > MAX_SIGNIFICANT_DIGITS) {
+      return this
+    }
+    if (eb - ea > MAX_SIGNIFICANT_DIGITS) {
+      return b
+    }
+    return ea >= eb
+      ? BigNumber.normalize(ma + mb * 10 ** (eb - ea), ea)
+      : BigNumber.normalize(mb + ma * 10 ** (ea - eb), eb)
+  }
+
+  sub(other: BigNumberLike): BigNumber {
+    return this.add(BigNumber.from(other).neg())
+  }
+
+  neg(): BigNumber {
+    return this.isZero() ? this : new BigNumber(-this.mantissa, this.exponent)
+  }
+
+  mul(other: BigNumberLike): BigNumber {
+    const b = BigNumber.from(other)
+    if (this.isPlain && b.isPlain) {
+      const product = this.mantissa * b.mantissa
+      if (Number.isFinite(product)) {
+        return BigNumber.normalize(product, 0)
+      }
+    }
+    const [ma, ea] = this.scientific
+    const [mb, eb] = b.scientific
+    return BigNumber.normalize(ma * mb, ea + eb)
+  }
+
+  div(other: BigNumberLike): BigNumber {
+    const b = BigNumber.from(other)
+    if (b.isZero()) {
+      throw new RangeError("BigNumber division by zero")
+    }
+    if (this.isPlain && b.isPlain) {
+      const quotient = this.mantissa / b.mantissa
+      if (Number.isFinite(quotient)) {
+        return BigNumber.normalize(quotient, 0)
+      }
+    }
+    const [ma, ea] = this.scientific
+    const [mb, eb] = b.scientific
+    return BigNumber.normalize(ma / mb, ea - eb)
+  }
+
+  // Real powers of non-negative values, e.g. cost curves like costMultiplier ** level
+  pow(power: number): BigNumber {
+    if (this.isPlain) {
+      const result = this.mantissa ** power
+      if (Number.isFinite(result)) {
+        return BigNumber.normalize(result, 0)
+      }
+    }
+    if (this.sign < 0) {
+      throw new RangeError("BigNumber.pow only supports non-negative bases")
+    }
+    if (this.isZero()) {
+      return power === 0 ? BigNumber.ONE : BigNumber.ZERO
+    }
+    const log = power * this.log10()
+    const exponent = Math.floor(log)
+    return BigNumber.normalize(10 ** (log - exponent), exponent)
+  }
+
+  log10(): number {
+    const [mantissa, exponent] = this.scientific
+    return Math.log10(mantissa) + exponent
+  }
+
+  // Values past 1e300 are far beyond integer precision already, so rounding only affects plain values
+  floor(): BigNumber {
+    return this.isPlain ? BigNumber.normalize(Math.floor(this.mantissa), 0) : this
+  }
+
+  ceil(): BigNumber {
+    return this.isPlain ? BigNumber.normalize(Math.ceil(this.mantissa), 0) : this
+  }
+
+  // -1, 0 or 1
+  compare(other: BigNumberLike): number {
+    const b = BigNumber.from(other)
+    if (this.isPlain && b.isPlain) {
+      return Math.sign(this.mantissa - b.mantissa)
+    }
+    if (this.sign !== b.sign) {
+      return Math.sign(this.sign - b.sign)
+    }
+    const [ma, ea] = this.scientific
+    const [mb, eb] = b.scientific
+    if (ea !== eb) {
+      return ea > eb ? this.sign : -this.sign
+    }
+    return Math.sign(ma - mb)
+  }
+
+  eq(other: BigNumberLike): boolean {
+    return this.compare(other) === 0
+  }
+
+  lt(other: BigNumberLike): boolean {
+    return this.compare(other) < 0
+  }
+
+  lte(other: BigNumberLike): boolean {
+    return this.compare(other) <= 0
+  }
+
+  gt(other: BigNumberLike): boolean {
+    return this.compare(other) > 0
+  }
+
+  gte(other: BigNumberLike): boolean {
+    return this.compare(other) >= 0
+  }
+
+  // Clamped to ±Number.MAX_VALUE, so number views of huge amounts stay finite
+  toNumber(): number {
+    if (this.isPlain) {
+      return this.mantissa
+    }
+    const value = this.mantissa * 10 ** this.exponent
+    return Number.isFinite(value) ? value : Math.sign(value) * Number.MAX_VALUE
+  }
+
+  // Plain values as numbers, larger ones as "<mantissa>e<exponent>", e.g. "1.5e400"
+  toString(): string {
+    return this.isPlain ? String(this.mantissa) : `${this.mantissa}e${this.exponent}`
+  }
+
+  toJSON(): string {
+    return this.toString()
+  }
+
+  // Short display form: plain below a million, scientific above, e.g. "1.50e400"
+  format(digits = 2): string {
+    const [mantissa, exponent] = this.scientific
+    if (exponent < 6) {
+      return String(Number(this.toNumber().toFixed(digits)))
+    }
+    return `${mantissa.toFixed(digits)}e${exponent}`
+  }
+}
+
+// Saved resource amounts: integers as written in "standard" mode, strings as written in "big" mode
+export const bigNumberSchema = z.union([
+  z.int().nonnegative(),
+  z.string().regex(/^\d+(?:\.\d+)?(?:e[+-]?\d+)?$/i, "Expected a non-negative number like \"1.5e400\""),
+])
+
+export type BigNumberSnapshot = z.infer<typeof bigNumberSchema>
+
+// Validates an amount added to or spent from a resource: a non-negative integer. "standard" mode clamps it to
+// Number.MAX_SAFE_INTEGER like the balances, so a huge rate per round saturates instead of throwing.
+export function parseResourceAmount(value: BigNumberLike, mode: NumberMode): BigNumber {
+  const amount = BigNumber.from(value)
+  if (amount.sign < 0 || !amount.floor().eq(amount)) {
+    throw new RangeError(`Invalid resource amount ${amount.toString()}`)
+  }
+  return fitResourceAmount(amount, mode)
+}
+
+// "standard" mode keeps amounts below Number.MAX_SAFE_INTEGER, so its saves stay valid integers
+export function fitResourceAmount(amount: BigNumber, mode: NumberMode): BigNumber {
+  return mode === "standard" ? BigNumber.min(amount, Number.MAX_SAFE_INTEGER) : amount
+}
+
+export function toAmountSnapshot(amount: BigNumber, mode: NumberMode): BigNumberSnapshot {
+  return mode === "standard" ? amount.toNumber() : amount.toString()
+}
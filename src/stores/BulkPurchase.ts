@@ -0,0 +1,83 @@
+import type { BigNumberLike } from "./BigNumber"
+import type { Resource, ResourceAmounts } from "./shared"
+
+import { BigNumber } from "./BigNumber"
+
+// How many to buy at once: a fixed count, as many as affordable, or up to the next milestone
+export type BulkAmount = number | "max" | "milestone"
+
+export interface PurchasePreview {
+  count: number // Units the purchase buys, 0 when nothing can be bought
+  cost: Partial<ResourceAmounts> // Total cost of those units
+  affordable: boolean // Whether current resources cover the cost, always false for 0 units
+}
+
+interface PlanOptions {
+  amount: BulkAmount
+  owned: number
+  // Units that can still be bought at all, e.g. up to an upgrade's maxLevel
+  available: number
+  // Counts worth stopping at, in any order
+  milestones: number[]
+  // Total cost of `count` units bought when `owned` are owned already, growing with `count`
+  totalCost: (owned: number, count: number) => Partial<ResourceAmounts>
+  resources: ResourceAmounts
+}
+
+// Upper bound for a single bulk purchase, keeps "max" finite when costs don't grow (free or non-growing content)
+export const MAX_BULK_PURCHASE = 10_000
+
+// Unrounded total of `count` units costing `base × multiplier^n` each, from n = `owned` on:
+// base × multiplier^owned × (multiplier^count − 1) / (multiplier − 1). Exactly base × multiplier^owned for one unit.
+export function geometricCost(base: BigNumberLike, multiplier: number, owned: number, count: number): BigNumber {
+  const first = BigNumber.from(multiplier).pow(owned).mul(base)
+  if (multiplier === 1) {
+    return first.mul(count)
+  }
+  return first.mul(BigNumber.from(multiplier).pow(count).sub(1).div(multiplier - 1))
+}
+
+// Costs come from the closed-form sum, rounded up once per purchase rather than once per unit, so a
+// bulk purchase can cost a few units of each resource less than buying one at a time. "max" searches
+// the affordable count in logarithmic steps, so previews stay cheap for any count.
+export function planPurchase({ amount, owned, available, milestones, totalCost, resources }: PlanOptions): PurchasePreview {
+  let limit = Math.min(available, MAX_BULK_PURCHASE)
+  if (typeof amount === "number") {
+    limit = Math.min(limit, Math.max(0, Math.floor(amount)))
+  }
+  else if (amount === "milestone") {
+    const next = Math.min(...milestones.filter(milestone => milestone > owned))
+    limit = Number.isFinite(next) ? Math.min(limit, next - owned) : 0
+  }
+
+  const count = amount === "max"
+    ? maxAffordable(limit, count => canAfford(totalCost(owned, count), resources))
+    : limit
+  const cost = count > 0 ? totalCost(owned, count) : {}
+  return { count, cost, affordable: count > 0 && canAfford(cost, resources) }
+}
+
+// Largest count up to `limit` that is affordable, doubling past the affordable range, then bisecting
+function maxAffordable(limit: number, affordable: (count: number) => boolean): number {
+  let low = 0
+  let high = 1
+  while (high <= limit && affordable(high)) {
+    low = high
+    high *= 2
+  }
+  high = Math.min(high, limit + 1)
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2)
+    if (affordable(middle)) {
+      low = middle
+    }
+    else {
+      high = middle
+    }
+  }
+  return low
+}
+
+function canAfford(cost: Partial<ResourceAmounts>, resources: ResourceAmounts): boolean {
+  return (Object.entries(cost) as [Resource, BigNumber][]).every(([resource, amount]) => (resources[resource] ?? BigNumber.ZERO).gte(amount))
+}
@@ -0,0 +1,98 @@
+export type TimerId = number
+
+export interface Clock {
+  now: () => number
+  setTimeout: (callback: () => void, delay: number) => TimerId
+  clearTimeout: (id: TimerId) => void
+}
+
+// Real time backed by Date.now() and the global timers
+export class SystemClock implements Clock {
+  private nextId = 1
+  private timers = new Map<TimerId, ReturnType<typeof globalThis.setTimeout>>()
+
+  now(): number {
+    return Date.now()
+  }
+
+  setTimeout(callback: () => void, delay: number): TimerId {
+    const id = this.nextId++
+    this.timers.set(id, globalThis.setTimeout(() => {
+      this.timers.delete(id)
+      callback()
+    }, delay))
+    return id
+  }
+
+  clearTimeout(id: TimerId): void {
+    const timer = this.timers.get(id)
+    if (timer !== undefined) {
+      globalThis.clearTimeout(timer)
+      this.timers.delete(id)
+    }
+  }
+}
+
+interface ManualTimer {
+  id: TimerId
+  dueAt: number
+  callback: () => void
+}
+
+// Virtual time for tests and tools: nothing happens until advance() is called
+export class ManualClock implements Clock {
+  constructor(private time: number = 0) {}
+
+  private nextId = 1
+  private timers: ManualTimer[] = []
+
+  get pendingTimers(): number {
+    return this.timers.length
+  }
+
+  now(): number {
+    return this.time
+  }
+
+  setTimeout(callback: () => void, delay: number): TimerId {
+    const id = this.nextId++
+    this.timers.push({ id, dueAt: this.time + Math.max(0, delay), callback })
+    return id
+  }
+
+  clearTimeout(id: TimerId): void {
+    this.timers = this.timers.filter(timer => timer.id !== id)
+  }
+
+  // Moves time forward, firing due timers in order of their due time.
+  // Timers scheduled by callbacks fire too if they fall within the advanced range.
+  advance(ms: number): void {
+    const target = this.time + Math.max(0, ms)
+    for (;;) {
+      const next = this.nextDueTimer(target)
+      if (!next) {
+        break
+      }
+      this.timers = this.timers.filter(timer => timer !== next)
+      this.time = Math.max(this.time, next.dueAt)
+      next.callback()
+    }
+    this.time = target
+  }
+
+  // Jumps time forward without firing anything, like a suspended device waking up
+  skip(ms: number): void {
+    this.time += Math.max(0, ms)
+  }
+
+  private nextDueTimer(target: number): ManualTimer | undefined {
+    let next: ManualTimer | undefined
+    for (const timer of this.timers) {
+      // Earliest due time wins, ties keep scheduling order
+      if (timer.dueAt <= target && (!next || timer.dueAt < next.dueAt)) {
+        next = timer
+      }
+    }
+    return next
+  }
+}
@@ -1,8 +1,10 @@
+import type { ContentLoadError } from "./ContentProvider"
 import type { RootStore } from "./RootStore"
 import type { CodexSnapshot } from "./shared"
 
 import { makeAutoObservable, observable } from "mobx"
 import { z } from "zod"
+import { toContentLoadError } from "./ContentProvider"
 import { codexSnapshotSchema } from "./shared"
 
 export const articleSchema = z.object({
@@ -16,11 +18,12 @@ export type Article = z.infer<typeof articleSchema>
 export class CodexStore {
   constructor(private root: RootStore) {
     makeAutoObservable(this)
-    this.loadArticles()
   }
 
   state: "pending" | "ready" | "error" = "pending"
 
+  loadError: ContentLoadError | null = null
+
   articles: Article[] = []
 
   get mappedArticles(): Map<Article["id"], Article> {
@@ -36,10 +39,14 @@ export class CodexStore {
       const response: unknown = yield dataSource.fetchArticles()
       this.articles = z.array(articleSchema).parse(response)
       this.state = "ready"
+      this.loadError = null
     }
     catch (e) {
       console.error("Failed to load publications", e)
-      this.state = "error"
+      this.loadError = toContentLoadError("articles", e)
+      if (this.state !== "ready") {
+        this.state = "error"
+      }
     }
   }
 
@@ -1,32 +1,117 @@
+import type { DurationStyle, NumberNotation } from "./Formatting"
+import type { MultiplierLimits } from "./Multipliers"
 import type { RootStore } from "./RootStore"
 
 import type { Rarity } from "./shared"
-import { makeAutoObservable } from "mobx"
+import { makeAutoObservable, toJS } from "mobx"
+import { z } from "zod"
+import { DURATION_STYLES, NUMBER_NOTATIONS, SHORT_SUFFIXES } from "./Formatting"
+import { gainMultipliers, nonNegativeIntegerSchema, nonNegativeNumberSchema, raritySchema } from "./shared"
+
+const positiveNumberSchema = z.number().positive()
+
+export const configSchema = z.strictObject({
+  gameVersion: z.string(),
+  localSaveInterval: nonNegativeNumberSchema,
+  saveBackupInterval: nonNegativeNumberSchema,
+  maxSaveBackups: nonNegativeIntegerSchema,
+  partialSaveRecovery: z.boolean(),
+  gameRoundInterval: positiveNumberSchema,
+  maxCatchUpRounds: nonNegativeIntegerSchema,
+  maxOfflineTime: nonNegativeNumberSchema,
+  offlineMultiplier: nonNegativeNumberSchema,
+  baseEnergyProduction: nonNegativeNumberSchema,
+  energyDiminishingReturnsExponent: nonNegativeNumberSchema,
+  baseOutputProduction: nonNegativeNumberSchema,
+  outputDiminishingReturnsExponent: nonNegativeNumberSchema,
+  moneyPerReputation: nonNegativeNumberSchema,
+  reputationDiminishingReturnsExponent: nonNegativeNumberSchema,
+  multiplierLimits: z.partialRecord(z.enum(gainMultipliers), z.object({
+    min: nonNegativeNumberSchema.optional(),
+    max: nonNegativeNumberSchema.optional(),
+  })),
+  baseEnergyCost: nonNegativeNumberSchema,
+  baseOutputGain: nonNegativeNumberSchema,
+  operationScaleFactor: z.record(raritySchema, nonNegativeNumberSchema),
+  purchaseMilestones: z.array(z.int().positive()),
+  toastTimeout: nonNegativeNumberSchema,
+  levelUpConfirmText: z.string(),
+  numberFormat: z.strictObject({
+    notation: z.enum(NUMBER_NOTATIONS),
+    digits: z.int().min(0).max(20),
+    suffixes: z.array(z.string()).min(1),
+  }),
+  durationFormat: z.strictObject({
+    style: z.enum(DURATION_STYLES),
+    maxUnits: z.int().positive(),
+  }),
+  prestige: z.strictObject({
+    baseOperationsCompleted: positiveNumberSchema,
+    softCapThreshold: nonNegativeIntegerSchema,
+    softCapMultiplier: nonNegativeNumberSchema,
+  }),
+})
+
+export type EngineConfig = z.infer<typeof configSchema>
+
+type DeepPartial<T> = T extends unknown[] ? T : T extends object ? { [K in keyof T]?: DeepPartial<T[K]> } : T
+
+// What createEngine({ config }) and a config.json may set, merged over the current values
+export type EngineConfigOverrides = DeepPartial<EngineConfig>
+
+const CONFIG_KEYS = Object.keys(configSchema.shape) as (keyof EngineConfig)[]
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+// Objects merge key by key, anything else (arrays included) replaces the base value
+function deepMerge(base: unknown, overrides: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(overrides)) {
+    return overrides === undefined ? base : overrides
+  }
+  const merged: Record<string, unknown> = { ...base }
+  for (const [key, value] of Object.entries(overrides)) {
+    merged[key] = deepMerge(base[key], value)
+  }
+  return merged
+}
 
 export class ConfigStore {
   constructor(private root: RootStore) {
     makeAutoObservable(this)
+    // Before any other store is created, so nothing reads the defaults first
+    if (root.options.config) {
+      this.applyOverrides(root.options.config)
+    }
   }
 
   gameVersion = "0.0.0"
 
   localSaveInterval = 5000 // 5 seconds
+  saveBackupInterval = 5 * 60 * 1000 // 5 minutes between rotating backups
+  maxSaveBackups = 3
+  partialSaveRecovery = true // Salvage valid store snapshots of a broken save when no backup is valid
   gameRoundInterval = 1000 // 1 second
+  maxCatchUpRounds = 60 // Missed rounds replayed one by one, a longer gap is credited as offline progress
 
   maxOfflineTime = 8 * 60 * 60 * 1000 // 8 hours max
   offlineMultiplier = 0.5 // 50% efficiency
 
   // energy production
   baseEnergyProduction = 1 // Base workers energy production
-  // energyDiminishingReturnsExponent = 0.9; // Diminishing returns exponent for energy production
+  energyDiminishingReturnsExponent = 1 // Applied to workers energy production, e.g. 0.9 flattens it, 1 keeps it linear
 
   // output production
   baseOutputProduction = 1 // Base workers output production
-  // outputDiminishingReturnsExponent = 0.9; // Diminishing returns exponent for output production
+  outputDiminishingReturnsExponent = 1 // Applied to workers output production
 
   // reputation conversion
   moneyPerReputation = 0.3 // Base grants per reputation point
-  // reputationDiminishingReturnsExponent = 0.9; // Diminishing returns exponent for reputation conversion
+  reputationDiminishingReturnsExponent = 1 // Applied to reputation before converting it to money
+
+  // Bounds of the final gain multipliers, e.g. { operationCostReduction: { max: 5 } }. Content caps and floors narrow them.
+  multiplierLimits: MultiplierLimits = {}
 
   // click cost and gain
   baseEnergyCost = 5
@@ -40,13 +125,54 @@ export class ConfigStore {
     legendary: 2.0,
   }
 
+  // Counts "milestone" bulk purchases stop at, next to unlock thresholds from content and upgrade max levels
+  purchaseMilestones = [10, 25, 50, 100, 250, 500, 1000]
+
   toastTimeout = 4000
 
   levelUpConfirmText = "Let's do it!"
 
+  // How FormatStore and the formatted views of the stores show numbers and durations
+  numberFormat: { notation: NumberNotation, digits: number, suffixes: string[] } = {
+    notation: "short",
+    digits: 2,
+    suffixes: [...SHORT_SUFFIXES],
+  }
+
+  durationFormat: { style: DurationStyle, maxUnits: number } = {
+    style: "compact",
+    maxUnits: 2,
+  }
+
   prestige = {
     baseOperationsCompleted: 100,
     softCapThreshold: 5,
     softCapMultiplier: 0.1,
   }
+
+  // Deep-merges overrides over the current values. Validates the result as a whole and throws without
+  // changing anything when it is invalid.
+  applyOverrides(overrides: unknown): void {
+    const result = configSchema.safeParse(deepMerge(this.getSnapshot(), overrides))
+    if (!result.success) {
+      throw new Error(`Invalid engine config:\n${z.prettifyError(result.error)}`)
+    }
+    Object.assign(this, result.data)
+  }
+
+  * loadConfig() {
+    const config: unknown = yield this.root.dataSource.fetchConfig()
+    if (config !== undefined) {
+      this.applyOverrides(config)
+      // Options passed in code take precedence over config.json
+      if (this.root.options.config) {
+        this.applyOverrides(this.root.options.config)
+      }
+    }
+  }
+
+  // Plain copy of the resolved config, stored with every save
+  getSnapshot(): EngineConfig {
+    return Object.fromEntries(CONFIG_KEYS.map(key => [key, toJS(this[key])])) as EngineConfig
+  }
 }
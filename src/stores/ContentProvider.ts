@@ -0,0 +1,189 @@
+import type { RootStoreOptions } from "./RootStoreOptions"
+
+import { z } from "zod"
+
+export const CONTENT_KEYS = [
+  "workers",
+  "levels",
+  "operations",
+  "upgrades",
+  "achievements",
+  "articles",
+  "prestigeUpgrades",
+  "resources",
+  "theme",
+  "locales",
+  "managers",
+] as const
+
+export type ContentKey = typeof CONTENT_KEYS[number]
+
+// Content a game may leave out, providers resolve a missing one to undefined
+export const OPTIONAL_CONTENT_KEYS = ["resources", "theme", "locales", "managers"] as const satisfies readonly ContentKey[]
+
+export type OptionalContentKey = typeof OPTIONAL_CONTENT_KEYS[number]
+
+export function isOptionalContentKey(key: ContentKey): key is OptionalContentKey {
+  return (OPTIONAL_CONTENT_KEYS as readonly ContentKey[]).includes(key)
+}
+
+type ContentRecord<T> = Record<Exclude<ContentKey, OptionalContentKey>, T> & Partial<Record<OptionalContentKey, T>>
+
+// `config` is optional: a config.json with engine config overrides
+export type DataUrls = ContentRecord<string> & { config?: string }
+
+// Raw content of every data file, validated by the stores when loaded
+export type GameContent = ContentRecord<unknown> & { config?: unknown }
+
+// Where the stores get their content from, raw data goes through the same validation for every provider
+export interface ContentProvider {
+  // Resolves to undefined for a missing optional key
+  load: (key: ContentKey) => Promise<unknown>
+  // Engine config overrides, resolves to undefined when the game has none
+  loadConfig?: () => Promise<unknown>
+  // Drops cached content so the next load fetches it again, called before a full reload
+  invalidate?: () => void
+}
+
+type Fetcher = typeof fetch
+
+function resolveFetcher(fetcher: Fetcher | undefined): Fetcher {
+  const resolvedFetch = fetcher ?? globalThis.fetch
+  if (!resolvedFetch) {
+    throw new Error("Loading content from URLs requires a fetch implementation.")
+  }
+  return resolvedFetch.bind(globalThis)
+}
+
+async function fetchJson(fetcher: Fetcher, url: string, what: string): Promise<unknown> {
+  const response = await fetcher(url)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${what} from ${url}: ${response.status} ${response.statusText}`)
+  }
+  return response.json()
+}
+
+// Fetches one JSON file per content key
+export class UrlContentProvider implements ContentProvider {
+  private fetcher: Fetcher
+
+  constructor(private dataUrls: DataUrls, fetcher?: Fetcher) {
+    this.fetcher = resolveFetcher(fetcher)
+  }
+
+  async load(key: ContentKey): Promise<unknown> {
+    const url = this.dataUrls[key]
+    if (!url && isOptionalContentKey(key)) {
+      return undefined
+    }
+    if (!url) {
+      throw new Error(`Missing data URL for ${key}.`)
+    }
+    return fetchJson(this.fetcher, url, key)
+  }
+
+  async loadConfig(): Promise<unknown> {
+    return this.dataUrls.config === undefined ? undefined : fetchJson(this.fetcher, this.dataUrls.config, "config")
+  }
+}
+
+// Serves content objects passed in directly, e.g. bundled JSON imports
+export class InlineContentProvider implements ContentProvider {
+  constructor(private content: GameContent) {}
+
+  async load(key: ContentKey): Promise<unknown> {
+    if (this.content[key] === undefined && !isOptionalContentKey(key)) {
+      throw new Error(`Missing inline content for ${key}.`)
+    }
+    return this.content[key]
+  }
+
+  async loadConfig(): Promise<unknown> {
+    return this.content.config
+  }
+}
+
+// Fetches a single JSON file holding all content keys, once for all stores
+export class ContentPackProvider implements ContentProvider {
+  private fetcher: Fetcher
+  private pack: Promise<Record<string, unknown>> | undefined
+
+  constructor(private url: string, fetcher?: Fetcher) {
+    this.fetcher = resolveFetcher(fetcher)
+  }
+
+  async load(key: ContentKey): Promise<unknown> {
+    this.pack ??= this.fetchPack()
+    const pack = await this.pack
+    if (pack[key] === undefined && !isOptionalContentKey(key)) {
+      throw new Error(`Content pack ${this.url} is missing ${key}.`)
+    }
+    return pack[key]
+  }
+
+  async loadConfig(): Promise<unknown> {
+    this.pack ??= this.fetchPack()
+    return (await this.pack).config
+  }
+
+  invalidate(): void {
+    this.pack = undefined
+  }
+
+  private async fetchPack(): Promise<Record<string, unknown>> {
+    try {
+      const pack = await fetchJson(this.fetcher, this.url, "content pack")
+      if (typeof pack !== "object" || pack === null || Array.isArray(pack)) {
+        throw new Error(`Content pack ${this.url} is not a JSON object.`)
+      }
+      return pack as Record<string, unknown>
+    }
+    catch (e) {
+      // Let a later load retry instead of caching the failure
+      this.pack = undefined
+      throw e
+    }
+  }
+}
+
+// Wraps a custom async loader, e.g. reading files in Node or an app bundle on mobile
+export function createContentLoader(
+  load: (key: ContentKey) => Promise<unknown>,
+  loadConfig?: () => Promise<unknown>,
+): ContentProvider {
+  return loadConfig ? { load, loadConfig } : { load }
+}
+
+// Picks the provider from the engine options: an explicit provider, then inline content, then data URLs
+export function createContentProvider(options: Pick<RootStoreOptions, "content" | "contentProvider" | "dataUrls" | "fetcher">): ContentProvider {
+  if (options.contentProvider) {
+    return options.contentProvider
+  }
+  if (options.content) {
+    return new InlineContentProvider(options.content)
+  }
+  if (options.dataUrls) {
+    return new UrlContentProvider(options.dataUrls, options.fetcher)
+  }
+  throw new Error("One of contentProvider, content or dataUrls is required to load game content.")
+}
+
+// Why a store failed to load its content. A failed reload keeps the content loaded before, so a store
+// can be "ready" and still have a loadError
+export interface ContentLoadError {
+  key: ContentKey
+  message: string
+  // Validation issues when the content was loaded but didn't match the schema
+  issues: { path: PropertyKey[], message: string }[]
+}
+
+export function toContentLoadError(key: ContentKey, error: unknown): ContentLoadError {
+  if (error instanceof z.ZodError) {
+    return {
+      key,
+      message: `Invalid ${key} content`,
+      issues: error.issues.map(issue => ({ path: issue.path, message: issue.message })),
+    }
+  }
+  return { key, message: error instanceof Error ? error.message : String(error), issues: [] }
+}
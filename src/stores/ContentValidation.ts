@@ -0,0 +1,333 @@
+import type { ZodType } from "zod"
+import type { Achievement } from "./AchievementsStore"
+import type { Article } from "./CodexStore"
+import type { ContentKey, GameContent, OptionalContentKey } from "./ContentProvider"
+import type { Levels } from "./LevelStore"
+import type { Locales } from "./LocalizationStore"
+import type { Managers } from "./ManagersStore"
+import type { Operations } from "./OperationsStore"
+import type { PrestigeUpgrades } from "./PrestigeStore"
+import type { ResourceDefinitions } from "./ResourcesStore"
+import type { ThemeManifest } from "./ThemeStore"
+import type { Upgrades } from "./UpgradesStore"
+import type { Workers } from "./WorkersStore"
+
+import { z } from "zod"
+import { achievementSchema } from "./AchievementsStore"
+import { articleSchema } from "./CodexStore"
+import { CONTENT_KEYS, isOptionalContentKey } from "./ContentProvider"
+import { levelsSchema } from "./LevelStore"
+import { getLocalizationKeys, localesSchema } from "./LocalizationStore"
+import { managersSchema } from "./ManagersStore"
+import { operationsSchema } from "./OperationsStore"
+import { prestigeUpgradesSchema } from "./PrestigeStore"
+import { resourceDefinitionsSchema } from "./ResourcesStore"
+import { RESOURCES } from "./shared"
+import { themeManifestSchema } from "./ThemeStore"
+import { upgradesSchema } from "./UpgradesStore"
+import { workersSchema } from "./WorkersStore"
+
+export type ContentIssueCode
+  = | "schema" // The file doesn't match its schema, cross-references of it are not checked
+    | "duplicateId" // Two entries of a file share an id, declared resources fail their schema instead
+    | "missingReference" // An id that doesn't exist in the referenced file
+    | "levelOutOfRange" // A level index past the last level
+    | "unreachableLevel" // A level requiring articles no operation unlocks
+    | "unreachableUpgrade" // An upgrade that can never be unlocked or bought
+    | "unusedArticle" // An article no operation unlocks
+    | "unusedManager" // A manager no upgrade or prestige upgrade unlocks
+    | "missingTranslation" // A key of the content a locale's string table doesn't translate
+    | "unknownTranslation" // A string table key no content text has, e.g. a typo or removed content
+
+export interface ContentIssue {
+  severity: "error" | "warning"
+  code: ContentIssueCode
+  // Content file the issue is in and the path inside it, e.g. [2, "unlockConditions", 0, "workerId"]
+  key: ContentKey
+  path: PropertyKey[]
+  message: string
+}
+
+export interface ContentValidationResult {
+  valid: boolean // No errors, warnings are allowed
+  errors: ContentIssue[]
+  warnings: ContentIssue[]
+}
+
+interface ParsedContent {
+  workers: Workers
+  levels: Levels
+  operations: Operations
+  upgrades: Upgrades
+  achievements: Achievement[]
+  articles: Article[]
+  prestigeUpgrades: PrestigeUpgrades
+  resources: ResourceDefinitions
+  theme: ThemeManifest
+  locales: Locales
+  managers: Managers
+}
+
+const contentSchemas: { [K in ContentKey]: ZodType<ParsedContent[K]> } = {
+  workers: workersSchema,
+  levels: levelsSchema,
+  operations: operationsSchema,
+  upgrades: upgradesSchema,
+  achievements: z.array(achievementSchema),
+  articles: z.array(articleSchema),
+  prestigeUpgrades: prestigeUpgradesSchema,
+  resources: resourceDefinitionsSchema,
+  theme: themeManifestSchema,
+  locales: localesSchema,
+  managers: managersSchema,
+}
+
+// What the stores load when a game leaves an optional file out
+const missingOptionalContent: { [K in OptionalContentKey]: ParsedContent[K] } = {
+  resources: [],
+  theme: {},
+  locales: {},
+  managers: [],
+}
+
+// Checks raw content the way the stores load it, then checks that ids and level indices line up across files
+export function validateContent(content: Partial<GameContent>): ContentValidationResult {
+  const issues: ContentIssue[] = []
+  const report = (severity: ContentIssue["severity"], code: ContentIssueCode, key: ContentKey, path: PropertyKey[], message: string) => {
+    issues.push({ severity, code, key, path, message })
+  }
+
+  const parsed: Partial<ParsedContent> = {}
+  for (const key of CONTENT_KEYS) {
+    if (content[key] === undefined && isOptionalContentKey(key)) {
+      Object.assign(parsed, { [key]: missingOptionalContent[key] })
+      continue
+    }
+    if (content[key] === undefined) {
+      report("error", "schema", key, [], `Missing ${key} content`)
+      continue
+    }
+    const result = contentSchemas[key].safeParse(content[key])
+    if (result.success) {
+      Object.assign(parsed, { [key]: result.data })
+    }
+    else {
+      for (const issue of result.error.issues) {
+        report("error", "schema", key, issue.path, issue.message)
+      }
+    }
+  }
+
+  // LevelStore orders levels by progress, level indices refer to that order
+  const levels = parsed.levels && [...parsed.levels].sort((a, b) => a.progress.start - b.progress.start)
+
+  const checkDuplicates = (key: ContentKey, items: { id: string }[] | undefined) => {
+    const seen = new Set<string>()
+    items?.forEach((item, index) => {
+      if (seen.has(item.id)) {
+        report("error", "duplicateId", key, [index, "id"], `Duplicate ${key} id "${item.id}"`)
+      }
+      seen.add(item.id)
+    })
+  }
+  checkDuplicates("workers", parsed.workers)
+  checkDuplicates("levels", levels)
+  checkDuplicates("operations", parsed.operations)
+  checkDuplicates("upgrades", parsed.upgrades)
+  checkDuplicates("achievements", parsed.achievements)
+  checkDuplicates("articles", parsed.articles)
+  checkDuplicates("prestigeUpgrades", parsed.prestigeUpgrades)
+  checkDuplicates("managers", parsed.managers)
+
+  const ids = (items: { id: string }[] | undefined) => items && new Set(items.map(item => item.id))
+  const workerIds = ids(parsed.workers)
+  const operationIds = ids(parsed.operations)
+  const upgradeIds = ids(parsed.upgrades)
+  const articleIds = ids(parsed.articles)
+  const managerIds = ids(parsed.managers)
+  const resourceIds = parsed.resources && new Set([...RESOURCES, ...parsed.resources.map(resource => resource.id)])
+
+  // References into a file that failed to parse are skipped, its schema issues are reported already
+  const checkReference = (target: ContentKey, targetIds: Set<string> | undefined, id: string, key: ContentKey, path: PropertyKey[]) => {
+    if (targetIds && !targetIds.has(id)) {
+      report("error", "missingReference", key, path, `Unknown ${target} id "${id}"`)
+    }
+  }
+  const checkLevel = (level: number, key: ContentKey, path: PropertyKey[]) => {
+    if (levels && level >= levels.length) {
+      report("error", "levelOutOfRange", key, path, `Level ${level} doesn't exist, the last level is ${levels.length - 1}`)
+    }
+  }
+
+  const checkResources = (record: Record<string, unknown>, key: ContentKey, path: PropertyKey[]) => {
+    for (const id of Object.keys(record)) {
+      checkReference("resources", resourceIds, id, key, [...path, id])
+    }
+  }
+
+  parsed.resources?.forEach((resource, index) => {
+    if (resource.production?.type === "conversion") {
+      checkReference("resources", resourceIds, resource.production.from, "resources", [index, "production", "from"])
+    }
+  })
+
+  checkResources(parsed.theme?.resources ?? {}, "theme", ["resources"])
+
+  levels?.forEach((level, index) => {
+    level.operations.forEach((id, i) => checkReference("operations", operationIds, id, "levels", [index, "operations", i]))
+    level.unlockCost.unlockedArticles.forEach((id, i) => checkReference("articles", articleIds, id, "levels", [index, "unlockCost", "unlockedArticles", i]))
+  })
+
+  parsed.workers?.forEach((worker, index) => {
+    checkResources(worker.production, "workers", [index, "production"])
+    worker.unlockConditions.forEach((condition, i) => {
+      if (condition.type === "hiredWorkers") {
+        checkReference("workers", workerIds, condition.workerId, "workers", [index, "unlockConditions", i, "workerId"])
+      }
+      if (condition.type === "level") {
+        checkLevel(condition.level, "workers", [index, "unlockConditions", i, "level"])
+      }
+    })
+  })
+
+  parsed.operations?.forEach((operation, index) => {
+    checkResources(operation.cost, "operations", [index, "cost"])
+    checkResources(operation.rewards.resources ?? {}, "operations", [index, "rewards", "resources"])
+    operation.requirements.forEach((requirement, i) => {
+      if (requirement.type === "operationCompleted") {
+        checkReference("operations", operationIds, requirement.operationId, "operations", [index, "requirements", i, "operationId"])
+      }
+      if (requirement.type === "level") {
+        checkLevel(requirement.level, "operations", [index, "requirements", i, "level"])
+      }
+    })
+    operation.articlesUnlocks.forEach((unlock, i) => {
+      checkReference("articles", articleIds, unlock.id, "operations", [index, "articlesUnlocks", i, "id"])
+    })
+  })
+
+  parsed.upgrades?.forEach((upgrade, index) => {
+    checkResources(upgrade.cost, "upgrades", [index, "cost"])
+    upgrade.effect.forEach((effect, i) => {
+      if (effect.type === "unlockManager") {
+        checkReference("managers", managerIds, effect.managerId, "upgrades", [index, "effect", i, "managerId"])
+      }
+    })
+    if (upgrade.maxLevel === 0) {
+      report("warning", "unreachableUpgrade", "upgrades", [index, "maxLevel"], `Upgrade "${upgrade.id}" has maxLevel 0 and can never be bought`)
+    }
+    const condition = upgrade.unlockCondition
+    const path = [index, "unlockCondition"]
+    switch (condition?.type) {
+      case "level":
+        checkLevel(condition.level, "upgrades", [...path, "level"])
+        break
+      case "operation":
+        checkReference("operations", operationIds, condition.operationId, "upgrades", [...path, "operationId"])
+        break
+      case "worker":
+        checkReference("workers", workerIds, condition.workerId, "upgrades", [...path, "workerId"])
+        break
+      case "upgrade": {
+        checkReference("upgrades", upgradeIds, condition.upgradeId, "upgrades", [...path, "upgradeId"])
+        const required = parsed.upgrades!.find(other => other.id === condition.upgradeId)
+        if (condition.upgradeId === upgrade.id) {
+          report("warning", "unreachableUpgrade", "upgrades", [...path, "upgradeId"], `Upgrade "${upgrade.id}" requires itself`)
+        }
+        else if (required && condition.level > required.maxLevel) {
+          report("warning", "unreachableUpgrade", "upgrades", [...path, "level"], `Upgrade "${upgrade.id}" requires level ${condition.level} of "${required.id}", which has maxLevel ${required.maxLevel}`)
+        }
+        break
+      }
+    }
+  })
+
+  parsed.achievements?.forEach((achievement, index) => {
+    const { condition } = achievement
+    if (condition.type === "operationLevel") {
+      checkReference("operations", operationIds, condition.operationId, "achievements", [index, "condition", "operationId"])
+    }
+    if (condition.type === "resourceTotal" || condition.type === "resourceRate") {
+      checkReference("resources", resourceIds, condition.resource, "achievements", [index, "condition", "resource"])
+    }
+    if (condition.type === "levelUnlocked") {
+      checkLevel(condition.level, "achievements", [index, "condition", "level"])
+    }
+  })
+
+  parsed.prestigeUpgrades?.forEach((upgrade, index) => {
+    if (upgrade.maxLevel === 0) {
+      report("warning", "unreachableUpgrade", "prestigeUpgrades", [index, "maxLevel"], `Prestige upgrade "${upgrade.id}" has maxLevel 0 and can never be bought`)
+    }
+    upgrade.effects.forEach((effect, i) => {
+      if (effect.type === "startingWorkers") {
+        checkReference("workers", workerIds, effect.workerId, "prestigeUpgrades", [index, "effects", i, "workerId"])
+      }
+      if (effect.type === "startingResource") {
+        checkReference("resources", resourceIds, effect.resource, "prestigeUpgrades", [index, "effects", i, "resource"])
+      }
+      if (effect.type === "levelThreshold") {
+        checkLevel(effect.levelIndex, "prestigeUpgrades", [index, "effects", i, "levelIndex"])
+      }
+      if (effect.type === "unlockManager") {
+        checkReference("managers", managerIds, effect.managerId, "prestigeUpgrades", [index, "effects", i, "managerId"])
+      }
+    })
+  })
+
+  // Articles are only unlocked by operations, so a level needing an article no operation grants never unlocks
+  if (parsed.operations && parsed.articles) {
+    const unlockable = new Set(parsed.operations.flatMap(operation => operation.articlesUnlocks.map(unlock => unlock.id)))
+    levels?.forEach((level, index) => {
+      const missing = level.unlockCost.unlockedArticles.filter(id => !unlockable.has(id))
+      if (missing.length > 0) {
+        report("warning", "unreachableLevel", "levels", [index, "unlockCost", "unlockedArticles"], `Level "${level.id}" requires articles no operation unlocks: ${missing.join(", ")}`)
+      }
+    })
+    parsed.articles.forEach((article, index) => {
+      if (!unlockable.has(article.id)) {
+        report("warning", "unusedArticle", "articles", [index, "id"], `Article "${article.id}" is not unlocked by any operation`)
+      }
+    })
+  }
+
+  parsed.managers?.forEach((manager, index) => {
+    if (manager.target.type === "operation") {
+      checkReference("operations", operationIds, manager.target.operationId, "managers", [index, "target", "operationId"])
+    }
+  })
+
+  // Managers are only unlocked by upgrade effects, so one neither kind of upgrade names never works
+  if (parsed.managers && parsed.upgrades && parsed.prestigeUpgrades) {
+    const unlockable = new Set([
+      ...parsed.upgrades.flatMap(upgrade => upgrade.effect),
+      ...parsed.prestigeUpgrades.flatMap(upgrade => upgrade.effects),
+    ].flatMap(effect => effect.type === "unlockManager" ? [effect.managerId] : []))
+    parsed.managers.forEach((manager, index) => {
+      if (!unlockable.has(manager.id)) {
+        report("warning", "unusedManager", "managers", [index, "id"], `Manager "${manager.id}" is not unlocked by any upgrade`)
+      }
+    })
+  }
+
+  // Translations are checked against the content they translate, so only when all of it parsed
+  if (Object.keys(contentSchemas).every(key => key in parsed)) {
+    const keys = getLocalizationKeys(parsed)
+    const known = new Set(keys)
+    for (const [locale, table] of Object.entries(parsed.locales ?? {})) {
+      for (const key of keys.filter(key => !(key in table))) {
+        report("warning", "missingTranslation", "locales", [locale, key], `Locale "${locale}" has no translation for "${key}"`)
+      }
+      for (const key of Object.keys(table).filter(key => !known.has(key))) {
+        report("warning", "unknownTranslation", "locales", [locale, key], `Locale "${locale}" translates "${key}", which no content has`)
+      }
+    }
+  }
+
+  const errors = issues.filter(issue => issue.severity === "error")
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings: issues.filter(issue => issue.severity === "warning"),
+  }
+}
@@ -1,69 +1,74 @@
 import type { Achievement } from "./AchievementsStore"
 import type { Article } from "./CodexStore"
+import type { ContentKey, ContentProvider } from "./ContentProvider"
 import type { Levels } from "./LevelStore"
+import type { Locales } from "./LocalizationStore"
+import type { Managers } from "./ManagersStore"
 import type { Operations } from "./OperationsStore"
 import type { PrestigeUpgrades } from "./PrestigeStore"
-import type { RootStoreOptions } from "./RootStoreOptions"
+import type { ResourceDefinitions } from "./ResourcesStore"
+import type { ThemeManifest } from "./ThemeStore"
 import type { Upgrades } from "./UpgradesStore"
 import type { Workers } from "./WorkersStore"
 
-type DataUrls = RootStoreOptions["dataUrls"]
-
-type Fetcher = typeof fetch
-
 export class EngineDataSource {
-  private fetcher: Fetcher
-
-  constructor(private dataUrls: DataUrls, fetcher?: Fetcher) {
-    const resolvedFetch = fetcher ?? globalThis.fetch
-    if (!resolvedFetch) {
-      throw new Error("EngineDataSource requires a fetch implementation.")
-    }
-    this.fetcher = resolvedFetch.bind(globalThis)
-  }
+  constructor(readonly provider: ContentProvider) {}
 
   fetchWorkers(): Promise<Workers> {
-    return this.fetchJson("workers")
+    return this.load("workers")
   }
 
   fetchLevels(): Promise<Levels> {
-    return this.fetchJson("levels")
+    return this.load("levels")
   }
 
   fetchOperations(): Promise<Operations> {
-    return this.fetchJson("operations")
+    return this.load("operations")
   }
 
   fetchUpgrades(): Promise<Upgrades> {
-    return this.fetchJson("upgrades")
+    return this.load("upgrades")
   }
 
   fetchAchievements(): Promise<Achievement[]> {
-    return this.fetchJson("achievements")
+    return this.load("achievements")
   }
 
   fetchArticles(): Promise<Article[]> {
-    return this.fetchJson("articles")
+    return this.load("articles")
   }
 
   fetchPrestigeUpgrades(): Promise<PrestigeUpgrades> {
-    return this.fetchJson("prestigeUpgrades")
+    return this.load("prestigeUpgrades")
+  }
+
+  // Games without a resources file only use the core resources
+  async fetchResources(): Promise<ResourceDefinitions> {
+    return (await this.load<ResourceDefinitions | undefined>("resources")) ?? []
+  }
+
+  // Games without a theme file keep the default labels and messages
+  async fetchTheme(): Promise<ThemeManifest> {
+    return (await this.load<ThemeManifest | undefined>("theme")) ?? {}
+  }
+
+  // Games without a locales file only show the text of the content itself
+  async fetchLocales(): Promise<Locales> {
+    return (await this.load<Locales | undefined>("locales")) ?? {}
+  }
+
+  // Games without a managers file have no automation
+  async fetchManagers(): Promise<Managers> {
+    return (await this.load<Managers | undefined>("managers")) ?? []
   }
 
-  private getUrl(key: keyof DataUrls): string {
-    const url = this.dataUrls[key]
-    if (!url) {
-      throw new Error(`Missing data URL for ${key}.`)
-    }
-    return url
+  // Undefined when the provider has no config, ConfigStore validates it
+  fetchConfig(): Promise<unknown> {
+    return this.provider.loadConfig?.() ?? Promise.resolve(undefined)
   }
 
-  private async fetchJson<T>(key: keyof DataUrls): Promise<T> {
-    const url = this.getUrl(key)
-    const response = await this.fetcher(url)
-    if (!response.ok) {
-      throw new Error(`Failed to fetch ${key} from ${url}: ${response.status} ${response.statusText}`)
-    }
-    return response.json() as Promise<T>
+  // Stores validate the raw content with their schemas
+  private load<T>(key: ContentKey): Promise<T> {
+    return this.provider.load(key) as Promise<T>
   }
 }
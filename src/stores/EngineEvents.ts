@@ -0,0 +1,57 @@
+import type { ActiveBonus, Resources } from "./shared"
+
+export interface EngineEventMap {
+  click: { energySpent: number, outputGained: number }
+  workerHired: { workerId: string, count: number, cost: number }
+  operationConducted: { operationId: string, duration: number }
+  operationClaimed: { operationId: string, finishedCount: number, rewards: Partial<Resources> }
+  levelUnlocked: { levelIndex: number, levelId: string }
+  achievementUnlocked: { achievementId: string }
+  prestigeExecuted: { pointsEarned: number, prestigeCount: number, runSeconds: number }
+  upgradePurchased: { upgradeId: string, level: number, count: number }
+  bonusExpired: ActiveBonus
+}
+
+export type EngineEvent = keyof EngineEventMap
+
+export type EngineEventListener<E extends EngineEvent> = (payload: EngineEventMap[E]) => void
+
+// Typed emitter for discrete engine actions (sounds, particles, analytics)
+export class EngineEvents {
+  private listeners = new Map<EngineEvent, Set<EngineEventListener<never>>>()
+
+  // Returns a function that removes the listener
+  on<E extends EngineEvent>(event: E, listener: EngineEventListener<E>): () => void {
+    let listeners = this.listeners.get(event)
+    if (!listeners) {
+      listeners = new Set()
+      this.listeners.set(event, listeners)
+    }
+    listeners.add(listener)
+    return () => this.off(event, listener)
+  }
+
+  off<E extends EngineEvent>(event: E, listener: EngineEventListener<E>): void {
+    this.listeners.get(event)?.delete(listener)
+  }
+
+  emit<E extends EngineEvent>(event: E, payload: EngineEventMap[E]): void {
+    const listeners = this.listeners.get(event)
+    if (!listeners) {
+      return
+    }
+    for (const listener of [...listeners] as EngineEventListener<E>[]) {
+      // A failing listener must not break the game action that emitted the event
+      try {
+        listener(payload)
+      }
+      catch (e) {
+        console.error(`Engine event listener for ${event} failed:`, e)
+      }
+    }
+  }
+
+  clear(): void {
+    this.listeners.clear()
+  }
+}
@@ -0,0 +1,23 @@
+import type { BigNumberLike } from "./BigNumber"
+import type { DurationFormatOptions, NumberFormatOptions } from "./Formatting"
+import type { RootStore } from "./RootStore"
+
+import { makeAutoObservable } from "mobx"
+import { formatDuration, formatNumber } from "./Formatting"
+
+// Formats with config.numberFormat and config.durationFormat in the current locale, so every view of a
+// game shows numbers the same way. Options passed to a call override the config for that call.
+export class FormatStore {
+  constructor(private root: RootStore) {
+    makeAutoObservable(this)
+  }
+
+  number(value: BigNumberLike, options: NumberFormatOptions = {}): string {
+    return formatNumber(value, { ...this.root.config.numberFormat, locale: this.root.locale, ...options })
+  }
+
+  // Seconds, the unit of cooldownTimes, remaining operation times and projections
+  duration(seconds: number, options: DurationFormatOptions = {}): string {
+    return formatDuration(seconds, { ...this.root.config.durationFormat, locale: this.root.locale, ...options })
+  }
+}
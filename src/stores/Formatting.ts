@@ -0,0 +1,120 @@
+import type { BigNumberLike } from "./BigNumber"
+
+import { BigNumber } from "./BigNumber"
+
+// "short": 1.23K, 4.5M, past the last suffix like "scientific"
+// "scientific": 1.23e15, "engineering": 123e12 with exponents in steps of 3, "full": 1,234,567 with grouping
+export const NUMBER_NOTATIONS = ["short", "scientific", "engineering", "full"] as const
+
+export type NumberNotation = typeof NUMBER_NOTATIONS[number]
+
+// "compact": 2m 30s, "long": 2 minutes, 30 seconds
+export const DURATION_STYLES = ["compact", "long"] as const
+
+export type DurationStyle = typeof DURATION_STYLES[number]
+
+// Suffixes of the "short" notation, one per power of 1000
+export const SHORT_SUFFIXES = ["", "K", "M", "B", "T", "Qa", "Qi", "Sx", "Sp", "Oc", "No", "Dc"] as const
+
+export interface NumberFormatOptions {
+  notation?: NumberNotation // Default "short"
+  digits?: number // Fraction digits at most, default 2
+  locale?: string // Decimal and grouping separators, default "en"
+  suffixes?: readonly string[] // Default SHORT_SUFFIXES
+}
+
+export interface DurationFormatOptions {
+  style?: DurationStyle // Default "compact"
+  maxUnits?: number // Largest units shown, e.g. 2 drops the seconds of "1d 2h 3m 4s", default 2
+  locale?: string // Default "en"
+}
+
+const DURATION_UNITS = [
+  ["day", 86400],
+  ["hour", 3600],
+  ["minute", 60],
+  ["second", 1],
+] as const
+
+// Intl formatters are slow to create and formatted views are recomputed often
+const numberFormats = new Map<string, Intl.NumberFormat>()
+
+function getNumberFormat(locale: string, options: Intl.NumberFormatOptions): Intl.NumberFormat {
+  const key = `${locale}|${JSON.stringify(options)}`
+  let format = numberFormats.get(key)
+  if (!format) {
+    format = new Intl.NumberFormat(locale, options)
+    numberFormats.set(key, format)
+  }
+  return format
+}
+
+function roundTo(value: number, digits: number): number {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
+
+// Mantissa rounded to `digits` and an exponent in multiples of `step`, 9.999e5 with 2 digits and step 3 gives [1, 6]
+function splitExponent(value: BigNumber, step: number, digits: number): [mantissa: number, exponent: number] {
+  let exponent = Math.floor(Math.floor(value.log10()) / step) * step
+  let mantissa = roundTo(value.div(BigNumber.from(10).pow(exponent)).toNumber(), digits)
+  if (mantissa >= 10 ** step) {
+    exponent += step
+    mantissa = roundTo(mantissa / 10 ** step, digits)
+  }
+  return [mantissa, exponent]
+}
+
+export function formatNumber(value: BigNumberLike, options: NumberFormatOptions = {}): string {
+  const { notation = "short", digits = 2, locale = "en", suffixes = SHORT_SUFFIXES } = options
+  const amount = BigNumber.from(value)
+  if (amount.sign < 0) {
+    return `-${formatNumber(amount.neg(), options)}`
+  }
+  const decimal = getNumberFormat(locale, { maximumFractionDigits: digits, useGrouping: false })
+  if (notation === "full") {
+    // Plain digits stop being meaningful past Number.MAX_VALUE
+    return amount.toNumber() < Number.MAX_VALUE
+      ? getNumberFormat(locale, { maximumFractionDigits: digits }).format(amount.toNumber())
+      : formatNumber(amount, { ...options, notation: "scientific" })
+  }
+  if (amount.lt(1000) && roundTo(amount.toNumber(), digits) < 1000) {
+    return decimal.format(roundTo(amount.toNumber(), digits))
+  }
+  if (notation === "short") {
+    const [mantissa, exponent] = splitExponent(amount, 3, digits)
+    const suffix = suffixes[exponent / 3]
+    if (suffix !== undefined) {
+      return `${decimal.format(mantissa)}${suffix}`
+    }
+  }
+  const [mantissa, exponent] = splitExponent(amount, notation === "engineering" ? 3 : 1, digits)
+  return `${decimal.format(mantissa)}e${exponent}`
+}
+
+// Whole seconds, rounded up so a countdown shows 1s until it ends
+export function formatDuration(seconds: number, options: DurationFormatOptions = {}): string {
+  const { style = "compact", maxUnits = 2, locale = "en" } = options
+  const unitDisplay = style === "compact" ? "narrow" : "long"
+  let remaining = Math.max(0, Math.ceil(seconds))
+  const parts: string[] = []
+  // Units counted from the largest one shown, so "1h 0m 5s" with 2 units is "1h"
+  let units = 0
+  for (const [unit, size] of DURATION_UNITS) {
+    const count = Math.floor(remaining / size)
+    remaining -= count * size
+    if (units === 0 && count === 0) {
+      continue
+    }
+    if (count > 0) {
+      parts.push(getNumberFormat(locale, { style: "unit", unit, unitDisplay }).format(count))
+    }
+    if (++units >= maxUnits) {
+      break
+    }
+  }
+  if (parts.length === 0) {
+    return getNumberFormat(locale, { style: "unit", unit: "second", unitDisplay }).format(0)
+  }
+  return new Intl.ListFormat(locale, { style: unitDisplay, type: "unit" }).format(parts)
+}
@@ -1,3 +1,5 @@
+import type { TimerId } from "./Clock"
+import type { MultiplierBreakdown } from "./Multipliers"
 import type { RootStore } from "./RootStore"
 
 import { flowResult, makeAutoObservable } from "mobx"
@@ -9,22 +11,60 @@ export class GameStore {
 
   running: boolean = false
 
+  private loopTimer: TimerId | undefined
+
+  // Clock time the last round covered up to, the loop catches up from here
+  private lastRoundAt = 0
+
   start(): void {
     if (this.running) {
       return
     }
+    if (this.root.phase !== "ready") {
+      throw new Error(`Cannot start the game in the ${this.root.phase} phase, await init() first`)
+    }
     this.running = true
+    // The first round runs right away
+    this.lastRoundAt = this.root.clock.now() - this.root.config.gameRoundInterval
     this.loop()
   }
 
   stop(): void {
+    this.dispose()
+    if (this.root.sync.state === "idle") {
+      void flowResult(this.root.sync.save(true))
+    }
+  }
+
+  // Rejects while a save or load is in flight, the game then stays stopped with its progress intact
+  async reset(): Promise<void> {
+    // No final save here, the progress is about to be wiped
+    this.dispose()
+    await flowResult(this.root.sync.reset())
+  }
+
+  // Stops the loop without saving
+  dispose(): void {
     this.running = false
-    void flowResult(this.root.sync.save())
+    if (this.loopTimer !== undefined) {
+      this.root.clock.clearTimeout(this.loopTimer)
+      this.loopTimer = undefined
+    }
   }
 
-  reset(): void {
-    this.stop()
-    this.root.sync.reset()
+  // Advances every store by `elapsedMs` of game time, one round by default.
+  // Longer rounds scale production instead of repeating it.
+  round(elapsedMs: number = this.root.config.gameRoundInterval): void {
+    this.root.resources.round(elapsedMs / this.root.config.gameRoundInterval)
+    this.advance(elapsedMs)
+  }
+
+  // Everything of a round but production: automation, level ups, playtime and achievements
+  private advance(elapsedMs: number): void {
+    this.root.managers.round()
+    this.root.level.round()
+    this.root.prestige.round(elapsedMs)
+    this.root.achievements.round()
   }
 
   private loop(): void {
@@ -32,18 +72,32 @@ export class GameStore {
       return
     }
 
-    const now = Date.now()
+    const { clock, config } = this.root
+    const interval = config.gameRoundInterval
+    const now = clock.now()
 
-    this.root.resources.round()
-    this.root.level.round()
-    this.root.prestige.round()
-    this.root.achievements.round()
+    // Timers fire late in throttled background tabs, so count the rounds that actually elapsed
+    const rounds = Math.floor((now - this.lastRoundAt) / interval)
+    if (rounds > config.maxCatchUpRounds) {
+      // Too far behind to replay round by round (device slept, tab frozen): production is credited like time
+      // with the game closed, playtime counts in full
+      this.root.offline.applyOfflineProgress(this.lastRoundAt, this.lastRoundAt + rounds * interval)
+      this.advance(rounds * interval)
+    }
+    else {
+      for (let i = 0; i < rounds; i++) {
+        this.round()
+      }
+    }
+    this.lastRoundAt += rounds * interval
 
-    if (now - this.root.sync.lastSave >= this.root.config.localSaveInterval) {
+    // Skip autosave while a previous save is still in flight (e.g. when a ManualClock advances several rounds at once)
+    if (this.root.sync.state === "idle" && now - this.root.sync.lastSave >= config.localSaveInterval) {
       void flowResult(this.root.sync.save())
     }
 
-    setTimeout(() => this.loop(), this.root.config.gameRoundInterval)
+    // Aim at the next round boundary so timer drift doesn't add up
+    this.loopTimer = clock.setTimeout(() => this.loop(), this.lastRoundAt + interval - now)
   }
 
   get energyCost(): number {
@@ -53,19 +107,25 @@ export class GameStore {
     )
   }
 
+  // Click output ignores active operation bonuses, those only boost operation rewards and passive output
+  get outputGainMultiplier(): MultiplierBreakdown {
+    return this.root.resources.explainMultiplier("outputGain", ["achievements", "upgrades", "prestige"])
+  }
+
   get outputGain(): number {
     return Math.floor(
       this.root.config.baseOutputGain
       * this.root.level.outputGain
-      * this.root.upgrades.multipliers.get("outputGain")!
-      * this.root.achievements.multipliers.get("outputGain")!
-      * this.root.prestige.multipliers.get("outputGain")!,
+      * this.outputGainMultiplier.total,
     )
   }
 
   click() {
-    if (this.root.resources.spendResource("energy", this.energyCost)) {
-      this.root.resources.addResource("output", this.outputGain)
+    const energySpent = this.energyCost
+    if (this.root.resources.spendResource("energy", energySpent)) {
+      const outputGained = this.outputGain
+      this.root.resources.addResource("output", outputGained)
+      this.root.events.emit("click", { energySpent, outputGained })
     }
   }
 }
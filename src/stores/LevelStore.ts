@@ -1,8 +1,10 @@
+import type { ContentLoadError } from "./ContentProvider"
 import type { RootStore } from "./RootStore"
 import type { LevelSnapshot } from "./shared"
 
 import { makeAutoObservable } from "mobx"
 import { z } from "zod"
+import { toContentLoadError } from "./ContentProvider"
 import { levelSnapshotSchema, nonNegativeIntegerSchema, nonNegativeNumberSchema } from "./shared"
 
 export const levelSchema = z.object({
@@ -31,11 +33,12 @@ export type Levels = z.infer<typeof levelsSchema>
 export class LevelStore {
   constructor(private root: RootStore) {
     makeAutoObservable(this)
-    this.loadLevels()
   }
 
   state: "pending" | "ready" | "error" = "pending"
 
+  loadError: ContentLoadError | null = null
+
   levels: Level[] = [];
 
   * loadLevels() {
@@ -48,29 +51,37 @@ export class LevelStore {
       this.levels = levelsSchema.parse(response)
         .sort((a, b) => a.progress.start - b.progress.start)
       this.state = "ready"
+      this.loadError = null
     }
     catch (e) {
       console.error("Failed to load levels:", e)
-      this.state = "error"
+      this.loadError = toContentLoadError("levels", e)
+      if (this.state !== "ready") {
+        this.state = "error"
+      }
     }
   }
 
   get unlockedLevels() {
     const unlocked = this.levels.filter((level, index) => {
-      const { operationsCompleted, unlockedArticles } = level.unlockCost
-
-      // Apply prestige level threshold modifier
-      const modifier = 1 - this.root.prestige.getLevelThresholdModifier(index)
-      const adjustedOpsRequired = Math.ceil(operationsCompleted * modifier)
-
       return (
-        adjustedOpsRequired <= this.root.operations.totalOperationsCompleted
-        && unlockedArticles.every(p => this.root.codex.unlockedArticles.has(p))
+        this.getOperationsRequired(index) <= this.root.operations.totalOperationsCompleted
+        && level.unlockCost.unlockedArticles.every(p => this.root.codex.unlockedArticles.has(p))
       )
     })
     return unlocked
   }
 
+  // Operations a level needs, with the prestige level threshold modifier applied
+  getOperationsRequired(levelIndex: number): number {
+    const level = this.levels[levelIndex]
+    if (!level) {
+      throw new Error(`Level index out of bounds: ${levelIndex}`)
+    }
+    const modifier = 1 - this.root.prestige.getLevelThresholdModifier(levelIndex)
+    return Math.ceil(level.unlockCost.operationsCompleted * modifier)
+  }
+
   maxLevelReached = 0
   currentLevel = 0
 
@@ -109,12 +120,14 @@ export class LevelStore {
       this.maxLevelReached = nextLevel
       this.root.sync.markDirty("level")
       this.root.achievements.levelReached(nextLevel)
+      this.root.events.emit("levelUnlocked", { levelIndex: nextLevel, levelId: newLevel.id })
 
       // Show a popup for the newly unlocked level
+      const { name, description } = this.root.localization.localize("levels", newLevel)
       this.root.confirmation.ask({
-        title: `${newLevel.name} Unlocked!`,
-        description: newLevel.description,
-        confirmText: this.root.config.levelUpConfirmText,
+        title: this.root.theme.formatMessage("levelUnlocked", { name }),
+        description,
+        confirmText: this.root.theme.formatMessage("levelUpConfirm", { name }),
       }).then((confirmed: boolean) => {
         if (confirmed) {
           this.selectLevel(nextLevel)
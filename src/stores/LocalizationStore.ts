@@ -0,0 +1,162 @@
+import type { ContentKey, ContentLoadError } from "./ContentProvider"
+import type { RootStore } from "./RootStore"
+
+import type { ThemeManifest } from "./ThemeStore"
+import { makeAutoObservable } from "mobx"
+import { z } from "zod"
+import { toContentLoadError } from "./ContentProvider"
+import { RARITY, RESOURCES } from "./shared"
+import { THEME_MESSAGES, THEME_TERMS } from "./ThemeStore"
+
+// A BCP 47 language tag like "en", "de" or "pt-BR". Checked by Intl, which the number formats would reject otherwise.
+export const localeSchema = z.string().refine(
+  (tag) => {
+    try {
+      return Intl.getCanonicalLocales(tag).length === 1
+    }
+    catch {
+      return false
+    }
+  },
+  { message: "Expected a BCP 47 language tag like \"en\" or \"pt-BR\"" },
+)
+
+// Locale → key → translated text, e.g. { "de": { "workers.volunteer.name": "Freiwillige" } }
+export const localesSchema = z.record(localeSchema, z.record(z.string(), z.string()))
+
+export type Locales = z.infer<typeof localesSchema>
+
+// Text fields of each content file the string tables can translate, keyed "<content key>.<id>.<field>"
+export const LOCALIZED_FIELDS = {
+  workers: ["name", "description"],
+  levels: ["name", "description"],
+  operations: ["name", "description"],
+  upgrades: ["name", "description"],
+  achievements: ["name", "description"],
+  articles: ["title", "content"],
+  prestigeUpgrades: ["name", "description"],
+  resources: ["name", "description"],
+  managers: ["name", "description"],
+} as const satisfies Partial<Record<ContentKey, readonly string[]>>
+
+export type LocalizableContentKey = keyof typeof LOCALIZED_FIELDS
+
+export type LocalizableContent = { [K in LocalizableContentKey]: readonly { id: string }[] } & { theme: ThemeManifest }
+
+export function contentTextKey(key: LocalizableContentKey, id: string, field: string): string {
+  return `${key}.${id}.${field}`
+}
+
+// Every key a complete string table has: the text fields of the content and the theme's labels and
+// messages, core resources, rarities, terms and messages included whether the theme sets them or not
+export function getLocalizationKeys(content: Partial<LocalizableContent>): string[] {
+  const keys: string[] = []
+  for (const key of Object.keys(LOCALIZED_FIELDS) as LocalizableContentKey[]) {
+    for (const item of content[key] ?? []) {
+      for (const field of LOCALIZED_FIELDS[key]) {
+        if (typeof (item as Record<string, unknown>)[field] === "string") {
+          keys.push(contentTextKey(key, item.id, field))
+        }
+      }
+    }
+  }
+  // Declared resources are named by the resources file unless the theme labels them
+  const themedResources = new Set<string>([...RESOURCES, ...Object.keys(content.theme?.resources ?? {})])
+  keys.push(...[...themedResources].map(resource => `theme.resources.${resource}.name`))
+  keys.push(...RARITY.map(rarity => `theme.rarities.${rarity}.name`))
+  keys.push(...THEME_TERMS.flatMap(term => [`theme.terms.${term}.name`, `theme.terms.${term}.plural`]))
+  keys.push(...THEME_MESSAGES.map(message => `theme.messages.${message}`))
+  return keys
+}
+
+export class LocalizationStore {
+  constructor(private root: RootStore) {
+    this.fallbackLocale = localeSchema.parse(root.options.fallbackLocale ?? "en")
+    this.locale = localeSchema.parse(root.options.locale ?? this.fallbackLocale)
+    makeAutoObservable(this)
+  }
+
+  state: "pending" | "ready" | "error" = "pending"
+
+  loadError: ContentLoadError | null = null
+
+  // String tables per locale, the locales file is optional
+  locales: Locales = {}
+
+  // Consulted when the current locale has no text for a key, before the text of the content itself
+  readonly fallbackLocale: string
+
+  locale: string
+
+  // Observers of localized text re-render on the next read. Locales without a string table fall back.
+  setLocale(locale: string) {
+    this.locale = localeSchema.parse(locale)
+  }
+
+  get availableLocales(): string[] {
+    return Object.keys(this.locales)
+  }
+
+  * loadLocales() {
+    try {
+      const response: unknown = yield this.root.dataSource.fetchLocales()
+      this.locales = localesSchema.parse(response)
+      this.state = "ready"
+      this.loadError = null
+    }
+    catch (e) {
+      console.error("Failed to load locales:", e)
+      this.loadError = toContentLoadError("locales", e)
+      if (this.state !== "ready") {
+        this.state = "error"
+      }
+    }
+  }
+
+  // Tables tried in order: the locale, its language without the region ("pt" for "pt-BR"), the fallback locale
+  private get lookupOrder(): string[] {
+    const [language] = this.locale.split("-")
+    return [...new Set([this.locale, language ?? this.locale, this.fallbackLocale])]
+  }
+
+  // Translated text of a key, `fallback` when no table in the lookup order has it
+  text(key: string, fallback: string): string {
+    for (const locale of this.lookupOrder) {
+      const text = this.locales[locale]?.[key]
+      if (text !== undefined) {
+        return text
+      }
+    }
+    return fallback
+  }
+
+  // A copy of a content item with its text fields translated, e.g. localize("workers", worker).name
+  localize<T extends { readonly id: string }>(key: LocalizableContentKey, item: T): T {
+    const localized: Record<string, unknown> = { ...item }
+    for (const field of LOCALIZED_FIELDS[key]) {
+      const text = localized[field]
+      if (typeof text === "string") {
+        localized[field] = this.text(contentTextKey(key, item.id, field), text)
+      }
+    }
+    return localized as T
+  }
+
+  // Keys of the loaded content the locale's own table doesn't translate, fallbacks aside
+  getMissingKeys(locale: string = this.locale): string[] {
+    const { workers, level, operations, upgrades, achievements, codex, prestige, resources, managers, theme } = this.root
+    const table = this.locales[locale] ?? {}
+    return getLocalizationKeys({
+      workers: workers.workers,
+      levels: level.levels,
+      operations: operations.operations,
+      upgrades: upgrades.upgrades,
+      achievements: achievements.achievements,
+      articles: codex.articles,
+      prestigeUpgrades: prestige.upgrades,
+      resources: resources.definitions,
+      managers: managers.managers,
+      theme: theme.manifest,
+    }).filter(key => !(key in table))
+  }
+}
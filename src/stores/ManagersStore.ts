@@ -0,0 +1,237 @@
+import type { BigNumberLike } from "./BigNumber"
+import type { ContentLoadError } from "./ContentProvider"
+import type { Operation } from "./OperationsStore"
+import type { RootStore } from "./RootStore"
+
+import type { GameSaveSnapshot, ManagersSnapshot, Resource } from "./shared"
+import { makeAutoObservable } from "mobx"
+import { z } from "zod"
+import { BigNumber, fitResourceAmount, parseResourceAmount, toAmountSnapshot } from "./BigNumber"
+import { toContentLoadError } from "./ContentProvider"
+import { managersSnapshotSchema, raritySchema, resourceSchema } from "./shared"
+
+// Operations a manager looks after: one operation, or every operation of a rarity
+const managerTargetSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("operation"), operationId: z.string() }),
+  z.object({ type: z.literal("rarity"), rarity: raritySchema }),
+])
+
+export const managerSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  target: managerTargetSchema,
+  // Claims finished operations as soon as they are claimable
+  autoClaim: z.boolean().default(true),
+  // Conducts idle operations once they are affordable without dipping into the reserves
+  autoConduct: z.boolean().default(true),
+}).readonly()
+
+export type Manager = z.infer<typeof managerSchema>
+
+export const managersSchema = z.array(managerSchema)
+
+export type Managers = z.infer<typeof managersSchema>
+
+// Managers are unlocked by `unlockManager` effects of upgrades and prestige upgrades, and run each game round
+export class ManagersStore {
+  constructor(private root: RootStore) {
+    makeAutoObservable(this)
+  }
+
+  state: "pending" | "ready" | "error" = "pending"
+
+  loadError: ContentLoadError | null = null
+
+  // The managers file is optional, games without one have no automation
+  managers: Managers = []
+
+  // Unlocked managers the player switched off
+  disabledManagers = new Set<string>()
+
+  // Amounts managers leave untouched when conducting, e.g. money saved for the next hire
+  reserves: Partial<Record<Resource, BigNumber>> = {}
+
+  // Keeps the next hire of the cheapest unlocked worker affordable, on top of the money reserve
+  reserveForWorkers = false
+
+  get mappedManagers(): Map<Manager["id"], Manager> {
+    return new Map(this.managers.map(manager => [manager.id, manager]))
+  }
+
+  * loadManagers() {
+    try {
+      const response: unknown = yield this.root.dataSource.fetchManagers()
+      this.managers = managersSchema.parse(response)
+      this.state = "ready"
+      this.loadError = null
+    }
+    catch (e) {
+      console.error("Failed to load managers:", e)
+      this.loadError = toContentLoadError("managers", e)
+      if (this.state !== "ready") {
+        this.state = "error"
+      }
+    }
+  }
+
+  // Ids unlocked by purchased upgrades and prestige upgrades
+  get unlockedManagerIds(): Set<string> {
+    const ids = new Set<string>()
+    const { upgrades, prestige } = this.root
+    for (const [id, level] of Object.entries(upgrades.unlockedUpgrades)) {
+      for (const effect of level > 0 ? upgrades.mappedUpgrades.get(id)?.effect ?? [] : []) {
+        if (effect.type === "unlockManager") {
+          ids.add(effect.managerId)
+        }
+      }
+    }
+    for (const [id, level] of Object.entries(prestige.purchasedUpgrades)) {
+      for (const effect of level > 0 ? prestige.mappedUpgrades.get(id)?.effects ?? [] : []) {
+        if (effect.type === "unlockManager") {
+          ids.add(effect.managerId)
+        }
+      }
+    }
+    return ids
+  }
+
+  get unlockedManagers(): Manager[] {
+    return this.managers.filter(manager => this.unlockedManagerIds.has(manager.id))
+  }
+
+  // Unlocked and not switched off
+  get activeManagers(): Manager[] {
+    return this.unlockedManagers.filter(manager => !this.disabledManagers.has(manager.id))
+  }
+
+  isEnabled(managerId: string): boolean {
+    return this.unlockedManagerIds.has(managerId) && !this.disabledManagers.has(managerId)
+  }
+
+  setEnabled(managerId: string, enabled: boolean) {
+    if (!this.mappedManagers.has(managerId)) {
+      throw new Error(`Unknown manager: ${managerId}`)
+    }
+    if (enabled) {
+      this.disabledManagers.delete(managerId)
+    }
+    else {
+      this.disabledManagers.add(managerId)
+    }
+    this.root.sync.markDirty("managers")
+  }
+
+  // Null removes the reserve
+  setReserve(resource: Resource, amount: BigNumberLike | null) {
+    if (!this.root.resources.resourceIds.includes(resource)) {
+      throw new Error(`Unknown resource: ${resource}`)
+    }
+    if (amount === null) {
+      delete this.reserves[resource]
+    }
+    else {
+      this.reserves[resource] = parseResourceAmount(amount, this.root.numberMode)
+    }
+    this.root.sync.markDirty("managers")
+  }
+
+  setReserveForWorkers(enabled: boolean) {
+    this.reserveForWorkers = enabled
+    this.root.sync.markDirty("managers")
+  }
+
+  // What conducting must leave of each resource, the worker reserve included
+  get effectiveReserves(): Partial<Record<Resource, BigNumber>> {
+    const reserves = { ...this.reserves }
+    if (this.reserveForWorkers) {
+      const { workers } = this.root
+      const costs = workers.unlockedWorkers.map(worker => workers.getWorkerCost(worker))
+      if (costs.length > 0) {
+        reserves.money = (reserves.money ?? BigNumber.ZERO).add(costs.reduce((min, cost) => BigNumber.min(min, cost)))
+      }
+    }
+    return reserves
+  }
+
+  managesOperation(manager: Manager, operation: Operation): boolean {
+    return manager.target.type === "operation"
+      ? manager.target.operationId === operation.id
+      : manager.target.rarity === operation.rarity
+  }
+
+  // Active managers looking after the operation
+  getManagers(operation: Operation): Manager[] {
+    return this.activeManagers.filter(manager => this.managesOperation(manager, operation))
+  }
+
+  // Affordable with every reserve kept
+  canConductWithReserves(operation: Operation): boolean {
+    const { resources, operations } = this.root
+    const reserves = this.effectiveReserves
+    for (const [resource, value] of Object.entries(operations.getOperationCost(operation))) {
+      if (value !== undefined && resources.getAmount(resource).sub(value).lt(reserves[resource] ?? BigNumber.ZERO)) {
+        return false
+      }
+    }
+    return true
+  }
+
+  // Called each game round: claims what is claimable, then conducts what is idle and affordable
+  round() {
+    const { operations } = this.root
+    if (this.activeManagers.length === 0) {
+      return
+    }
+    const available = new Set(operations.availableOperations.map(operation => operation.id))
+    for (const operation of operations.operations) {
+      const managers = this.getManagers(operation)
+      if (managers.length === 0) {
+        continue
+      }
+      if (operations.operationsClaimable.has(operation.id) && managers.some(manager => manager.autoClaim)) {
+        operations.claimOperation(operation)
+      }
+      if (
+        operations.getOperationPhase(operation.id) === "idle"
+        && available.has(operation.id)
+        && managers.some(manager => manager.autoConduct)
+        && this.canConductWithReserves(operation)
+      ) {
+        operations.conductOperation(operation)
+      }
+    }
+  }
+
+  getSnapshot(): ManagersSnapshot {
+    const reserves: ManagersSnapshot["reserves"] = {}
+    for (const [resource, amount] of Object.entries(this.reserves)) {
+      if (amount !== undefined) {
+        reserves[resource] = toAmountSnapshot(amount, this.root.numberMode)
+      }
+    }
+    return {
+      disabledManagers: [...this.disabledManagers],
+      reserves,
+      reserveForWorkers: this.reserveForWorkers,
+    }
+  }
+
+  loadSnapshot(snapshot: GameSaveSnapshot) {
+    const validated = managersSnapshotSchema.parse(snapshot.managers)
+    this.disabledManagers = new Set(validated.disabledManagers)
+    this.reserves = {}
+    const { numberMode } = this.root
+    for (const [resource, amount] of Object.entries(validated.reserves)) {
+      // Parsed like setReserve, fitted first so a save written in the other number mode still loads
+      this.reserves[resourceSchema.parse(resource)] = parseResourceAmount(fitResourceAmount(BigNumber.from(amount).floor(), numberMode), numberMode)
+    }
+    this.reserveForWorkers = validated.reserveForWorkers
+  }
+
+  reset() {
+    this.disabledManagers = new Set()
+    this.reserves = {}
+    this.reserveForWorkers = false
+  }
+}
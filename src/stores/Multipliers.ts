@@ -0,0 +1,150 @@
+import type { GainMultiplier, ModifierStacking, MultipliersMap } from "./shared"
+
+import { gainMultipliers } from "./shared"
+
+export const MULTIPLIER_SOURCES = ["achievements", "upgrades", "prestige", "operations"] as const
+
+export type MultiplierSource = typeof MULTIPLIER_SOURCES[number]
+
+// One effect feeding a gain multiplier
+export interface MultiplierContribution {
+  source: MultiplierSource
+  target: GainMultiplier
+  // Achievement, upgrade or prestige upgrade id, or the bonus id of an active operation bonus (null when it has none)
+  id: string | null
+  level: number // Purchased levels for upgrades, 1 otherwise
+  value: number // Factor of a single level
+  stacking: ModifierStacking
+  group: string | null // Additive group, null for multiplicative effects
+  factor: number // value ** level when multiplicative, 1 + level * (value - 1) when additive
+  cap: number | null // Content-declared bounds of the target's final multiplier
+  floor: number | null
+  expiresAt?: number // Active operation bonuses only
+}
+
+// Bounds of a final multiplier, e.g. to stop operationCostReduction from making operations free
+export interface MultiplierLimit {
+  min?: number
+  max?: number
+}
+
+export type MultiplierLimits = Partial<Record<GainMultiplier, MultiplierLimit>>
+
+export interface MultiplierGroupBreakdown {
+  group: string
+  factor: number // 1 + the summed bonuses, never below 0
+  contributions: MultiplierContribution[]
+}
+
+export interface MultiplierSourceBreakdown {
+  source: MultiplierSource
+  factor: number // What this source's contributions stack to on their own
+  contributions: MultiplierContribution[]
+}
+
+export interface MultiplierBreakdown {
+  target: GainMultiplier
+  total: number // `uncapped` clamped to the target's limit
+  uncapped: number // Multiplicative factors times additive group factors
+  limit: MultiplierLimit // config.multiplierLimits narrowed by the contributions' caps and floors
+  sources: MultiplierSourceBreakdown[]
+  additiveGroups: MultiplierGroupBreakdown[]
+}
+
+export function createContribution(
+  source: MultiplierSource,
+  target: GainMultiplier,
+  id: string | null,
+  effect: {
+    value: number
+    stacking?: ModifierStacking | undefined
+    group?: string | undefined
+    cap?: number | undefined
+    floor?: number | undefined
+  },
+  level = 1,
+): MultiplierContribution {
+  const stacking = effect.stacking ?? "multiplicative"
+  return {
+    source,
+    target,
+    id,
+    level,
+    value: effect.value,
+    stacking,
+    group: stacking === "additive" ? effect.group ?? target : null,
+    factor: stacking === "additive" ? 1 + level * (effect.value - 1) : effect.value ** level,
+    cap: effect.cap ?? null,
+    floor: effect.floor ?? null,
+  }
+}
+
+// Stacks the contributions to a single target: multiplicative ones multiply, additive groups sum first
+function stackContributions(contributions: MultiplierContribution[]): { factor: number, groups: MultiplierGroupBreakdown[] } {
+  let factor = 1
+  const grouped = new Map<string, MultiplierContribution[]>()
+  for (const contribution of contributions) {
+    if (contribution.group === null) {
+      factor *= contribution.factor
+    }
+    else {
+      grouped.set(contribution.group, [...grouped.get(contribution.group) ?? [], contribution])
+    }
+  }
+  const groups: MultiplierGroupBreakdown[] = []
+  for (const [group, members] of grouped) {
+    const groupFactor = Math.max(0, 1 + members.reduce((sum, contribution) => sum + contribution.factor - 1, 0))
+    groups.push({ group, factor: groupFactor, contributions: members })
+    factor *= groupFactor
+  }
+  return { factor, groups }
+}
+
+// Narrows a configured limit by the caps and floors of active contributions, the lowest cap and highest floor win
+function combineLimits(limit: MultiplierLimit, contributions: MultiplierContribution[]): MultiplierLimit {
+  const combined = { ...limit }
+  for (const { cap, floor } of contributions) {
+    if (cap !== null) {
+      combined.max = Math.min(combined.max ?? Infinity, cap)
+    }
+    if (floor !== null) {
+      combined.min = Math.max(combined.min ?? -Infinity, floor)
+    }
+  }
+  return combined
+}
+
+// A floor above the cap loses, the cap always holds
+function applyLimit(value: number, limit: MultiplierLimit): number {
+  return Math.min(limit.max ?? Infinity, Math.max(limit.min ?? -Infinity, value))
+}
+
+// Folds one store's contributions into a map, the shape stores expose as `multipliers`.
+// Additive groups spanning several stores and limits only apply in explainContributions.
+export function combineContributions(contributions: MultiplierContribution[]): MultipliersMap {
+  const map: MultipliersMap = new Map()
+  for (const target of gainMultipliers) {
+    map.set(target, stackContributions(contributions.filter(contribution => contribution.target === target)).factor)
+  }
+  return map
+}
+
+export function explainContributions(
+  target: GainMultiplier,
+  contributionsBySource: Partial<Record<MultiplierSource, MultiplierContribution[]>>,
+  limits: MultiplierLimits = {},
+): MultiplierBreakdown {
+  const sources: MultiplierSourceBreakdown[] = []
+  const all: MultiplierContribution[] = []
+  for (const source of MULTIPLIER_SOURCES) {
+    const contributions = contributionsBySource[source]?.filter(contribution => contribution.target === target)
+    if (!contributions) {
+      continue
+    }
+    sources.push({ source, factor: stackContributions(contributions).factor, contributions })
+    all.push(...contributions)
+  }
+  const { factor, groups } = stackContributions(all)
+  const limit = combineLimits(limits[target] ?? {}, all)
+  return { target, total: applyLimit(factor, limit), uncapped: factor, limit, sources, additiveGroups: groups }
+}
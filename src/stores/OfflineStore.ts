@@ -0,0 +1,89 @@
+import type { RootStore } from "./RootStore"
+
+import type { Resources } from "./shared"
+import { makeAutoObservable } from "mobx"
+import { BigNumber } from "./BigNumber"
+import { createResourceAmounts } from "./shared"
+
+export interface OfflineReport {
+  awayMs: number // Real time passed since the save was written
+  creditedMs: number // Part of awayMs that was simulated (capped by maxOfflineTime)
+  discardedMs: number // Part of awayMs that exceeded the cap
+  efficiency: number // Combined offlineMultiplier and offlineEfficiency multipliers at the save time
+  gains: Partial<Resources>
+}
+
+export class OfflineStore {
+  constructor(private root: RootStore) {
+    makeAutoObservable(this)
+  }
+
+  // "While you were away" report of the last applied offline progress
+  report: OfflineReport | null = null
+
+  get efficiency(): number {
+    return this.root.config.offlineMultiplier
+      * this.root.resources.getMultipliers("offlineEfficiency")
+  }
+
+  // Simulates passive production between the save timestamp and now
+  applyOfflineProgress(since: number, now: number = this.root.clock.now()): OfflineReport | null {
+    const awayMs = Math.max(0, now - since)
+    if (awayMs < this.root.config.gameRoundInterval) {
+      this.report = null
+      return null
+    }
+
+    const creditedMs = Math.min(awayMs, this.root.config.maxOfflineTime)
+    const end = since + creditedMs
+    const { resources, operations } = this.root
+
+    const produced = createResourceAmounts()
+    operations.expireBonuses(since)
+    const efficiency = this.efficiency
+
+    // Rates only change when a bonus expires, so simulate segment by segment between expiry times
+    let from = since
+    while (from < end) {
+      let to = end
+      for (const activeBonus of operations.activeBonuses) {
+        if (activeBonus.expiresAt > from && activeBonus.expiresAt < to) {
+          to = activeBonus.expiresAt
+        }
+      }
+
+      const rounds = (to - from) / this.root.config.gameRoundInterval * this.efficiency
+      for (const [resource, rate] of Object.entries(resources.ratesPerRound)) {
+        produced[resource] = (produced[resource] ?? BigNumber.ZERO).add(rate.mul(rounds))
+      }
+
+      operations.expireBonuses(to)
+      from = to
+    }
+
+    // Drop everything that expired while the player was away, including the discarded time
+    operations.expireBonuses(now)
+
+    const gains: Partial<Resources> = {}
+    for (const [key, value] of Object.entries(produced)) {
+      const amount = value.floor()
+      if (amount.gte(1)) {
+        resources.addResource(key, amount)
+        gains[key] = amount.toNumber()
+      }
+    }
+
+    this.report = {
+      awayMs,
+      creditedMs,
+      discardedMs: awayMs - creditedMs,
+      efficiency,
+      gains,
+    }
+    return this.report
+  }
+
+  dismissReport(): void {
+    this.report = null
+  }
+}
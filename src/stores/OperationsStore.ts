@@ -1,12 +1,16 @@
+import type { TimerId } from "./Clock"
+import type { ContentLoadError } from "./ContentProvider"
+import type { MultiplierContribution } from "./Multipliers"
 import type { RootStore } from "./RootStore"
-import type { ActiveBonus, GameSaveSnapshot, MultipliersMap, OperationsProgress, OperationsSnapshot } from "./shared"
+import type { ActiveBonus, GameSaveSnapshot, MultipliersMap, OperationsProgress, OperationsSnapshot, Resource, Resources } from "./shared"
 
 import { makeAutoObservable, runInAction } from "mobx"
 import { z } from "zod"
+import { toContentLoadError } from "./ContentProvider"
+import { combineContributions, createContribution } from "./Multipliers"
 import {
 
   bonusSchema,
-  createMultipliersMap,
 
   nonNegativeIntegerSchema,
 
@@ -15,12 +19,13 @@ import {
   resourceSchema,
 } from "./shared"
 
+// Declared resources can be listed next to the core ones
 const costSchema = z.object({
   energy: nonNegativeIntegerSchema.default(0),
   output: nonNegativeIntegerSchema.default(0),
   reputation: nonNegativeIntegerSchema.default(0),
   money: nonNegativeIntegerSchema.default(0),
-}).refine(
+}).catchall(nonNegativeIntegerSchema).refine(
   data => !Object.values(data).every(v => v === 0),
   { message: "At least one of resources must be specified" },
 ).readonly()
@@ -29,6 +34,8 @@ const rewardsSchema = z.object({
   reputation: nonNegativeIntegerSchema,
   output: nonNegativeIntegerSchema.optional(),
   money: nonNegativeIntegerSchema.optional(),
+  // Declared resources granted as they are, gain multipliers only apply to the core rewards
+  resources: z.record(resourceSchema, nonNegativeIntegerSchema).optional(),
   bonus: bonusSchema.optional(),
 }).readonly()
 
@@ -82,14 +89,17 @@ export const operationsSchema = z.array(operationSchema)
 
 export type Operations = z.infer<typeof operationsSchema>
 
+export type OperationPhase = "idle" | "inProgress" | "claimable" | "cooldown"
+
 export class OperationsStore {
   constructor(private root: RootStore) {
     makeAutoObservable(this)
-    this.loadData()
   }
 
   state: "pending" | "ready" | "error" = "pending"
 
+  loadError: ContentLoadError | null = null
+
   operations: Operation[] = []
 
   // Observable tick that forces recalculation of operation states
@@ -97,13 +107,13 @@ export class OperationsStore {
   private tick = 0
 
   // Active timeout for the next state transition
-  private timeoutId: ReturnType<typeof setTimeout> | undefined
+  private timeoutId: TimerId | undefined
 
   // Helper to determine operation phase based on progress and current time
-  private getOperationPhase(
+  private getProgressPhase(
     progress: OperationsProgress[string] | undefined,
     now: number,
-  ): "idle" | "inProgress" | "claimable" | "cooldown" {
+  ): OperationPhase {
     if (!progress) {
       return "idle"
     }
@@ -124,10 +134,14 @@ export class OperationsStore {
       const response: unknown = yield dataSource.fetchOperations()
       this.operations = operationsSchema.parse(response)
       this.state = "ready"
+      this.loadError = null
     }
     catch (e) {
       console.error("Failed to load discoveries:", e)
-      this.state = "error"
+      this.loadError = toContentLoadError("operations", e)
+      if (this.state !== "ready") {
+        this.state = "error"
+      }
     }
   }
 
@@ -171,24 +185,33 @@ export class OperationsStore {
   // Active temporary bonuses from completed operations
   activeBonuses: ActiveBonus[] = []
 
-  get multipliers(): MultipliersMap {
-    const map = createMultipliersMap(1.0)
+  get multiplierContributions(): MultiplierContribution[] {
+    const contributions: MultiplierContribution[] = []
     for (const activeBonus of this.activeBonuses) {
       if (activeBonus.bonus.type === "multiplier") {
-        const current = map.get(activeBonus.bonus.target)!
         // Multiplicative stacking for same-type bonuses
-        map.set(activeBonus.bonus.target, current * activeBonus.bonus.value)
+        contributions.push({
+          ...createContribution("operations", activeBonus.bonus.target, activeBonus.bonus.id ?? null, activeBonus.bonus),
+          expiresAt: activeBonus.expiresAt,
+        })
       }
     }
-    return map
+    return contributions
+  }
+
+  get multipliers(): MultipliersMap {
+    return combineContributions(this.multiplierContributions)
   }
 
-  expireBonuses() {
-    const now = Date.now()
-    const before = this.activeBonuses.length
+  expireBonuses(now: number = this.root.clock.now()) {
+    const expired = this.activeBonuses.filter(ab => ab.expiresAt <= now)
+    if (expired.length === 0) {
+      return
+    }
     this.activeBonuses = this.activeBonuses.filter(ab => ab.expiresAt > now)
-    if (before !== this.activeBonuses.length) {
-      this.root.sync.markDirty("operations")
+    this.root.sync.markDirty("operations")
+    for (const activeBonus of expired) {
+      this.root.events.emit("bonusExpired", activeBonus)
     }
   }
 
@@ -196,11 +219,11 @@ export class OperationsStore {
   private scheduleNextTick() {
     // Clear any existing timeout
     if (this.timeoutId) {
-      clearTimeout(this.timeoutId)
+      this.root.clock.clearTimeout(this.timeoutId)
       this.timeoutId = undefined
     }
 
-    const now = Date.now()
+    const now = this.root.clock.now()
     let nextTransitionTime = Infinity
     let hasActiveCooldowns = false
 
@@ -240,7 +263,7 @@ export class OperationsStore {
       delay = this.root.config.gameRoundInterval
     }
 
-    this.timeoutId = setTimeout(() => {
+    this.timeoutId = this.root.clock.setTimeout(() => {
       runInAction(() => {
         this.tick++ // Update tick to trigger computed getters
       })
@@ -253,11 +276,11 @@ export class OperationsStore {
     // The trick to force update
     void this.tick
 
-    const now = Date.now()
+    const now = this.root.clock.now()
     const inProgress = new Set<string>()
 
     for (const [operationId, progress] of Object.entries(this.operationsProgress)) {
-      if (this.getOperationPhase(progress, now) === "inProgress") {
+      if (this.getProgressPhase(progress, now) === "inProgress") {
         inProgress.add(operationId)
       }
     }
@@ -265,15 +288,23 @@ export class OperationsStore {
     return inProgress
   }
 
+  // Current phase of one operation, e.g. to check it is idle before conducting it
+  getOperationPhase(operationId: Operation["id"]): OperationPhase {
+    // The trick to force update
+    void this.tick
+
+    return this.getProgressPhase(this.operationsProgress[operationId], this.root.clock.now())
+  }
+
   get operationsClaimable(): Set<string> {
     // The trick to force update
     void this.tick
 
-    const now = Date.now()
+    const now = this.root.clock.now()
     const claimable = new Set<string>()
 
     for (const [operationId, progress] of Object.entries(this.operationsProgress)) {
-      if (this.getOperationPhase(progress, now) === "claimable") {
+      if (this.getProgressPhase(progress, now) === "claimable") {
         claimable.add(operationId)
       }
     }
@@ -285,11 +316,11 @@ export class OperationsStore {
     // The trick to force update
     void this.tick
 
-    const now = Date.now()
+    const now = this.root.clock.now()
     const inCooldown = new Set<string>()
 
     for (const [operationId, progress] of Object.entries(this.operationsProgress)) {
-      if (this.getOperationPhase(progress, now) === "cooldown") {
+      if (this.getProgressPhase(progress, now) === "cooldown") {
         inCooldown.add(operationId)
       }
     }
@@ -302,11 +333,11 @@ export class OperationsStore {
     // The trick to force update
     void this.tick
 
-    const now = Date.now()
+    const now = this.root.clock.now()
     const times = new Map<string, number>()
 
     for (const [operationId, progress] of Object.entries(this.operationsProgress)) {
-      if (this.getOperationPhase(progress, now) === "cooldown") {
+      if (this.getProgressPhase(progress, now) === "cooldown") {
         const remainingTime = (progress.cooldownTill - now) / 1000
         times.set(operationId, Math.max(0, remainingTime))
       }
@@ -315,11 +346,24 @@ export class OperationsStore {
     return times
   }
 
+  // cooldownTimes through root.format, e.g. "2m 30s"
+  get formattedCooldownTimes(): Map<string, string> {
+    return new Map([...this.cooldownTimes].map(([operationId, seconds]) => [operationId, this.root.format.duration(seconds)]))
+  }
+
+  // Map of operations in progress to the time until they are claimable, through root.format
+  get formattedRemainingTimes(): Map<string, string> {
+    return new Map([...this.operationsInProgress].map(operationId => [
+      operationId,
+      this.root.format.duration(this.getOperationRemainingTime(operationId)),
+    ]))
+  }
+
   // Helper method to get the remaining cooldown time in seconds
   getCooldownRemainingTime(operationId: string): number {
     const progress = this.operationsProgress[operationId]
-    const now = Date.now()
-    if (this.getOperationPhase(progress, now) !== "cooldown") {
+    const now = this.root.clock.now()
+    if (this.getProgressPhase(progress, now) !== "cooldown") {
       return 0
     }
 
@@ -329,8 +373,8 @@ export class OperationsStore {
   // Helper method to check if the operation needs animation resumption
   getOperationRemainingTime(operationId: string): number {
     const progress = this.operationsProgress[operationId]
-    const now = Date.now()
-    if (this.getOperationPhase(progress, now) !== "inProgress") {
+    const now = this.root.clock.now()
+    if (this.getProgressPhase(progress, now) !== "inProgress") {
       return 0
     }
 
@@ -345,13 +389,37 @@ export class OperationsStore {
       const resource = resourceSchema.parse(cost[0])
       const value = cost[1] * this.root.config.operationScaleFactor[operation.rarity]
       // Check if enough resources are available
-      if (this.root.resources[resource] < value) {
+      if (this.root.resources.getAmount(resource).lt(value)) {
         return false
       }
     }
     return true
   }
 
+  getCostMultiplier(operation: Operation): number {
+    // Get the operation cost reduction multiplier from upgrades (e.g., 1.2 means 20% reduction)
+    const operationCostReduction = Math.max(
+      this.root.resources.getMultipliers("operationCostReduction"),
+      0.001,
+    )
+    // Convert the reduction multiplier to a cost multiplier (e.g., 1.2 -> pay ~83% of base cost)
+    const upgradeMultiplier = 1 / operationCostReduction
+    // Apply both rarity scaling AND upgrade reduction
+    return this.root.config.operationScaleFactor[operation.rarity] * upgradeMultiplier
+  }
+
+  // What conducting an operation spends right now, rounded up as spendResourcesByCost does
+  getOperationCost(operation: Operation): Partial<Resources> {
+    const multiplier = this.getCostMultiplier(operation)
+    const cost: Partial<Resources> = {}
+    for (const [resource, value] of Object.entries(operation.cost) as [Resource, number][]) {
+      if (value > 0) {
+        cost[resource] = Math.ceil(value * multiplier)
+      }
+    }
+    return cost
+  }
+
   get affordableOperations() {
     const map = new Map<string, boolean>()
     for (const operation of this.availableOperations) {
@@ -364,7 +432,7 @@ export class OperationsStore {
   operationsProgress: OperationsProgress = {}
 
   conductOperation(operation: Operation) {
-    const now = Date.now()
+    const now = this.root.clock.now()
 
     // if the operation is still in cooldown, throw error
     const cooldownTill = this.operationsProgress[operation.id]?.cooldownTill ?? 0
@@ -373,17 +441,8 @@ export class OperationsStore {
       throw new Error(`${operation.name} is on cooldown for ${remainingSeconds} more seconds`)
     }
 
-    // Get the operation cost reduction multiplier from upgrades (e.g., 1.2 means 20% reduction)
-    const operationCostReduction = Math.max(
-      this.root.resources.getMultipliers("operationCostReduction"),
-      0.001,
-    )
-    // Convert the reduction multiplier to a cost multiplier (e.g., 1.2 -> pay ~83% of base cost)
-    const upgradeMultiplier = 1 / operationCostReduction
-    // Apply both rarity scaling AND upgrade reduction
-    const finalMultiplier = this.root.config.operationScaleFactor[operation.rarity] * upgradeMultiplier
     // Attempt to spend resources using the calculated cost multiplier, return early if insufficient resources¸
-    if (!this.root.resources.spendResourcesByCost(operation.cost, finalMultiplier)) {
+    if (!this.root.resources.spendResourcesByCost(operation.cost, this.getCostMultiplier(operation))) {
       throw new Error(`Insufficient resources to conduct operation ${operation.id}`)
     }
 
@@ -403,6 +462,8 @@ export class OperationsStore {
     }
     this.root.sync.markDirty("operations")
 
+    this.root.events.emit("operationConducted", { operationId: operation.id, duration })
+
     if (!duration) {
       // if the duration is 0, claim the operation immediately
       this.claimOperation(operation)
@@ -422,9 +483,9 @@ export class OperationsStore {
       throw new Error(`Operation ${operation.id} could not be claimed`)
     }
 
-    const now = Date.now()
+    const now = this.root.clock.now()
 
-    const phase = this.getOperationPhase(progressEntry, now)
+    const phase = this.getProgressPhase(progressEntry, now)
     switch (phase) {
       case "inProgress":
         throw new Error(`Operation ${operation.id} is not yet claimable`)
@@ -444,17 +505,27 @@ export class OperationsStore {
     // Add reputation amount
     const reputationGain = Math.ceil(operation.rewards.reputation * resources.getMultipliers("reputationGain"))
     resources.addResource("reputation", reputationGain)
+    const rewards: Partial<Resources> = { reputation: reputationGain }
 
     // Add output if specified
     if (operation.rewards.output) {
       const outputYield = Math.ceil(operation.rewards.output * resources.getMultipliers("outputGain"))
       resources.addResource("output", outputYield)
+      rewards.output = outputYield
     }
 
     // Add money if specified
     if (operation.rewards.money) {
       const moneyYield = Math.ceil(operation.rewards.money * resources.getMultipliers("moneyGain"))
       resources.addResource("money", moneyYield)
+      rewards.money = moneyYield
+    }
+
+    for (const [resource, amount] of Object.entries(operation.rewards.resources ?? {})) {
+      if (amount > 0) {
+        resources.addResource(resource, amount)
+        rewards[resource] = (rewards[resource] ?? 0) + amount
+      }
     }
 
     // Apply bonus effects if specified
@@ -462,7 +533,7 @@ export class OperationsStore {
       const { bonus } = operation.rewards
       // Only handle multiplier type bonuses with duration
       if (bonus.type === "multiplier" && bonus.duration) {
-        const expiresAt = Date.now() + (bonus.duration * 1000)
+        const expiresAt = this.root.clock.now() + (bonus.duration * 1000)
         this.activeBonuses.push({ bonus, expiresAt })
       }
     }
@@ -480,6 +551,7 @@ export class OperationsStore {
     this.root.sync.markDirty("operations")
 
     this.root.achievements.completeOperation()
+    this.root.events.emit("operationClaimed", { operationId: operation.id, finishedCount, rewards })
 
     // Reschedule next tick for remaining operations
     this.scheduleNextTick()
@@ -488,9 +560,9 @@ export class OperationsStore {
   // Unified method to handle both conducting and claiming operations
   // If the operation is claimable, it claims it. Otherwise, it conducts it.
   actOnOperation(operation: Operation): number | undefined {
-    const now = Date.now()
+    const now = this.root.clock.now()
     const progress = this.operationsProgress[operation.id]
-    const phase = this.getOperationPhase(progress, now)
+    const phase = this.getProgressPhase(progress, now)
 
     switch (phase) {
       case "inProgress":
@@ -524,11 +596,7 @@ export class OperationsStore {
   }
 
   reset() {
-    // Clear any pending timeouts
-    if (this.timeoutId) {
-      clearTimeout(this.timeoutId)
-      this.timeoutId = undefined
-    }
+    this.dispose()
 
     this.operationsFinished = {}
     this.operationsProgress = {}
@@ -536,12 +604,20 @@ export class OperationsStore {
     this.tick = 0
   }
 
+  // Stops the state update timer
+  dispose() {
+    if (this.timeoutId) {
+      this.root.clock.clearTimeout(this.timeoutId)
+      this.timeoutId = undefined
+    }
+  }
+
   resetForPrestige(): void {
     this.operationsFinished = {}
     this.operationsProgress = {}
     this.activeBonuses = []
     if (this.timeoutId) {
-      clearTimeout(this.timeoutId)
+      this.root.clock.clearTimeout(this.timeoutId)
       this.timeoutId = undefined
     }
     this.root.sync.markDirty("operations")
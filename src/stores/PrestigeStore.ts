@@ -1,13 +1,17 @@
+import type { ContentLoadError } from "./ContentProvider"
+import type { MultiplierContribution } from "./Multipliers"
 import type { RootStore } from "./RootStore"
 import type { FlatGainsMap, MultipliersMap, PrestigeSnapshot, Resource } from "./shared"
 
 import { makeAutoObservable } from "mobx"
 import { z } from "zod"
+import { toContentLoadError } from "./ContentProvider"
+import { combineContributions, createContribution } from "./Multipliers"
 import {
   createFlatGainsMap,
-  createMultipliersMap,
 
   gainMultipliers,
+  modifierStackingShape,
 
   nonNegativeIntegerSchema,
   nonNegativeNumberSchema,
@@ -24,11 +28,12 @@ const prestigeEffectSchema = z.discriminatedUnion("type", [
     type: z.literal("multiplier"),
     target: z.enum(gainMultipliers),
     value: nonNegativeNumberSchema, // e.g., 1.1 = +10%
+    ...modifierStackingShape,
   }),
   // Starting resource bonus
   z.object({
     type: z.literal("startingResource"),
-    resource: z.enum(["energy", "output", "reputation", "money"]),
+    resource: resourceSchema,
     amount: nonNegativeIntegerSchema,
   }),
   // Starting workers bonus
@@ -48,6 +53,11 @@ const prestigeEffectSchema = z.discriminatedUnion("type", [
     type: z.literal("startingOperations"),
     count: nonNegativeIntegerSchema,
   }),
+  // Manager unlock, usually on "qol" upgrades
+  z.object({
+    type: z.literal("unlockManager"),
+    managerId: z.string(),
+  }),
 ])
 
 export type PrestigeEffect = z.infer<typeof prestigeEffectSchema>
@@ -72,11 +82,12 @@ export type PrestigeUpgrades = z.infer<typeof prestigeUpgradesSchema>
 export class PrestigeStore {
   constructor(private root: RootStore) {
     makeAutoObservable(this)
-    this.loadData()
   }
 
   state: "pending" | "ready" | "error" = "pending"
 
+  loadError: ContentLoadError | null = null
+
   // Loaded upgrade definitions
   upgrades: PrestigeUpgrade[] = []
   get mappedUpgrades() {
@@ -93,10 +104,14 @@ export class PrestigeStore {
       const response: unknown = yield dataSource.fetchPrestigeUpgrades()
       this.upgrades = prestigeUpgradesSchema.parse(response)
       this.state = "ready"
+      this.loadError = null
     }
     catch (e) {
       console.error("Failed to load prestige upgrades:", e)
-      this.state = "error"
+      this.loadError = toContentLoadError("prestigeUpgrades", e)
+      if (this.state !== "ready") {
+        this.state = "error"
+      }
     }
   }
 
@@ -107,6 +122,9 @@ export class PrestigeStore {
   totalPlaytimeSeconds = 0 // Lifetime playtime
   purchasedUpgrades: Record<string, number> = {} // upgradeId → level
 
+  // Milliseconds short of a full playtime second, carried over to the next round
+  private playtimeRemainderMs = 0
+
   stats: PrestigeSnapshot["stats"] = {
     firstPrestigeAt: null,
     fastestRunSeconds: null,
@@ -114,12 +132,20 @@ export class PrestigeStore {
   }
 
   // BP Calculation
-  calculatePotentialBP(): number {
+  private get effectiveBaseOperations(): number {
     const { baseOperationsCompleted, softCapThreshold, softCapMultiplier } = this.root.config.prestige
     const scaling = 1 + Math.max(0, this.prestigeCount - softCapThreshold) * softCapMultiplier
-    const effectiveBase = baseOperationsCompleted * scaling
+    return baseOperationsCompleted * scaling
+  }
+
+  calculatePotentialBP(): number {
     const totalOps = this.root.operations.totalOperationsCompleted
-    return Math.floor(Math.sqrt(totalOps / effectiveBase))
+    return Math.floor(Math.sqrt(totalOps / this.effectiveBaseOperations))
+  }
+
+  // Operations this run needs to complete for `points` BP, the inverse of calculatePotentialBP
+  getOperationsForPoints(points: number): number {
+    return Math.ceil(points ** 2 * this.effectiveBaseOperations)
   }
 
   canPrestige(): boolean {
@@ -133,6 +159,7 @@ export class PrestigeStore {
     }
 
     const earnedBP = this.calculatePotentialBP()
+    const runSeconds = this.currentRunSeconds
     const totalOps = this.root.operations.totalOperationsCompleted
 
     // Update stats
@@ -141,7 +168,7 @@ export class PrestigeStore {
       totalOps,
     )
     if (this.stats.firstPrestigeAt === null) {
-      this.stats.firstPrestigeAt = Date.now()
+      this.stats.firstPrestigeAt = this.root.clock.now()
     }
     if (this.stats.fastestRunSeconds === null || this.currentRunSeconds < this.stats.fastestRunSeconds) {
       this.stats.fastestRunSeconds = this.currentRunSeconds
@@ -155,7 +182,7 @@ export class PrestigeStore {
     this.currentRunSeconds = 0
 
     // Reset other stores (order matters!)
-    this.root.resources.reset()
+    this.root.resources.resetForPrestige()
     this.root.workers.reset()
     this.root.operations.resetForPrestige() // New method - keeps definitions, clears progress
     this.root.level.reset()
@@ -165,13 +192,14 @@ export class PrestigeStore {
     this.applyStartingBonuses()
 
     this.root.sync.markDirty("prestige")
+    this.root.events.emit("prestigeExecuted", { pointsEarned: earnedBP, prestigeCount: this.prestigeCount, runSeconds })
   }
 
   private applyStartingBonuses(): void {
     const startingResources = this.getStartingResources()
     for (const [key, amount] of Object.entries(startingResources)) {
       const resource = resourceSchema.parse(key)
-      this.root.resources.addResource(resource, Math.ceil(amount))
+      this.root.resources.addResource(resource, Math.ceil(amount ?? 0))
     }
 
     const startingWorkers = this.getStartingWorkers()
@@ -337,8 +365,8 @@ export class PrestigeStore {
     return false
   }
 
-  get multipliers(): MultipliersMap {
-    const map = createMultipliersMap(1.0)
+  get multiplierContributions(): MultiplierContribution[] {
+    const contributions: MultiplierContribution[] = []
 
     for (const [upgradeId, level] of Object.entries(this.purchasedUpgrades)) {
       if (level <= 0)
@@ -350,13 +378,16 @@ export class PrestigeStore {
 
       for (const effect of upgrade.effects) {
         if (effect.type === "multiplier") {
-          const current = map.get(effect.target)!
-          map.set(effect.target, current * effect.value ** level)
+          contributions.push(createContribution("prestige", effect.target, upgradeId, effect, level))
         }
       }
     }
 
-    return map
+    return contributions
+  }
+
+  get multipliers(): MultipliersMap {
+    return combineContributions(this.multiplierContributions)
   }
 
   get flatGains(): FlatGainsMap {
@@ -370,10 +401,15 @@ export class PrestigeStore {
     this.root.sync.markDirty("prestige")
   }
 
-  round() {
-    this.currentRunSeconds += this.root.config.gameRoundInterval
-    this.totalPlaytimeSeconds += this.root.config.gameRoundInterval
-    this.root.sync.markDirty("prestige")
+  round(elapsedMs: number = this.root.config.gameRoundInterval) {
+    const playtimeMs = this.playtimeRemainderMs + elapsedMs
+    const seconds = Math.floor(playtimeMs / 1000)
+    this.playtimeRemainderMs = playtimeMs - seconds * 1000
+    if (seconds > 0) {
+      this.currentRunSeconds += seconds
+      this.totalPlaytimeSeconds += seconds
+      this.root.sync.markDirty("prestige")
+    }
   }
 
   getSnapshot(): PrestigeSnapshot {
@@ -394,6 +430,7 @@ export class PrestigeStore {
     this.lifetimePoints = validated.lifetimePoints
     this.prestigeCount = validated.prestigeCount
     this.currentRunSeconds = validated.currentRunSeconds
+    this.playtimeRemainderMs = 0
     this.totalPlaytimeSeconds = validated.totalPlaytimeSeconds
     this.purchasedUpgrades = { ...validated.purchasedUpgrades }
     this.stats = { ...validated.stats }
@@ -405,6 +442,7 @@ export class PrestigeStore {
     this.prestigeCount = 0
     this.currentRunSeconds = 0
     this.totalPlaytimeSeconds = 0
+    this.playtimeRemainderMs = 0
     this.purchasedUpgrades = {}
     this.stats = {
       firstPrestigeAt: null,
@@ -0,0 +1,132 @@
+import type { BigNumberLike } from "./BigNumber"
+import type { RootStore } from "./RootStore"
+
+import type { Resource, Resources } from "./shared"
+import { makeAutoObservable } from "mobx"
+import { BigNumber } from "./BigNumber"
+
+// Seconds until something is reached at the current rates: 0 when it already is,
+// null when it never will be without the player acting (e.g. a cost in reputation)
+export type Eta = number | null
+
+export interface OperationsEta {
+  operationsRemaining: number
+  seconds: Eta
+}
+
+export interface NextLevelEta extends OperationsEta {
+  levelIndex: number
+  // Articles the level needs that aren't unlocked yet, they come from specific operations so no ETA is given for them
+  missingArticles: string[]
+}
+
+export interface NextPrestigePointEta extends OperationsEta {
+  points: number // BP a prestige would award once reached
+}
+
+export class ProjectionsStore {
+  constructor(private root: RootStore) {
+    makeAutoObservable(this)
+  }
+
+  // Passive production per second of every resource, money follows the current reputation
+  get ratesPerSecond(): Resources {
+    const roundsPerSecond = 1000 / this.root.config.gameRoundInterval
+    const rates: Resources = { energy: 0, output: 0, reputation: 0, money: 0 }
+    for (const [resource, rate] of Object.entries(this.root.resources.ratesPerRound)) {
+      rates[resource] = rate.toNumber() * roundsPerSecond
+    }
+    return rates
+  }
+
+  // Operations completed per second of this run's playtime, used for level and prestige projections
+  get operationsPerSecond(): number {
+    const seconds = this.root.prestige.currentRunSeconds
+    return seconds > 0 ? this.root.operations.totalOperationsCompleted / seconds : 0
+  }
+
+  secondsUntilAffordable(cost: Partial<Record<Resource, BigNumberLike>>): Eta {
+    const { resources, config } = this.root
+    let rounds = 0
+    for (const [resource, amount] of Object.entries(cost) as [Resource, BigNumberLike][]) {
+      const missing = BigNumber.from(amount).sub(resources.getAmount(resource))
+      if (missing.sign <= 0) {
+        continue
+      }
+      const perRound = resources.ratesPerRound[resource] ?? BigNumber.ZERO
+      if (perRound.sign <= 0) {
+        return null
+      }
+      // Resources arrive once per round, so wait for whole rounds
+      rounds = Math.max(rounds, missing.div(perRound).ceil().toNumber())
+    }
+    return rounds * config.gameRoundInterval / 1000
+  }
+
+  private secondsUntilOperations(operationsRemaining: number): Eta {
+    if (operationsRemaining <= 0) {
+      return 0
+    }
+    const rate = this.operationsPerSecond
+    return rate > 0 ? Math.ceil(operationsRemaining / rate) : null
+  }
+
+  // workerId → seconds until the next hire is affordable
+  get workers(): Map<string, Eta> {
+    const map = new Map<string, Eta>()
+    for (const worker of this.root.workers.unlockedWorkers) {
+      map.set(worker.id, this.secondsUntilAffordable({ money: this.root.workers.getWorkerCost(worker) }))
+    }
+    return map
+  }
+
+  // upgradeId → seconds until the next level is affordable, null for maxed upgrades
+  get upgrades(): Map<string, Eta> {
+    const map = new Map<string, Eta>()
+    for (const upgrade of this.root.upgrades.visibleUpgrades) {
+      const level = this.root.upgrades.unlockedUpgrades[upgrade.id] ?? 0
+      map.set(upgrade.id, level < upgrade.maxLevel
+        ? this.secondsUntilAffordable(this.root.upgrades.getLevelCost(upgrade, level))
+        : null)
+    }
+    return map
+  }
+
+  // operationId → seconds until the operation is affordable, cooldowns are not included
+  get operations(): Map<string, Eta> {
+    const map = new Map<string, Eta>()
+    for (const operation of this.root.operations.availableOperations) {
+      map.set(operation.id, this.secondsUntilAffordable(this.root.operations.getOperationCost(operation)))
+    }
+    return map
+  }
+
+  // Null when the last level is unlocked
+  get nextLevel(): NextLevelEta | null {
+    const { level, operations, codex } = this.root
+    const levelIndex = level.unlockedLevels.length
+    const next = level.levels[levelIndex]
+    if (!next) {
+      return null
+    }
+    const operationsRemaining = Math.max(0, level.getOperationsRequired(levelIndex) - operations.totalOperationsCompleted)
+    const missingArticles = next.unlockCost.unlockedArticles.filter(id => !codex.unlockedArticles.has(id))
+    return {
+      levelIndex,
+      operationsRemaining,
+      missingArticles,
+      seconds: missingArticles.length > 0 ? null : this.secondsUntilOperations(operationsRemaining),
+    }
+  }
+
+  get nextPrestigePoint(): NextPrestigePointEta {
+    const { prestige, operations } = this.root
+    const points = prestige.calculatePotentialBP() + 1
+    const operationsRemaining = Math.max(0, prestige.getOperationsForPoints(points) - operations.totalOperationsCompleted)
+    return {
+      points,
+      operationsRemaining,
+      seconds: this.secondsUntilOperations(operationsRemaining),
+    }
+  }
+}
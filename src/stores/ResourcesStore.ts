@@ -1,68 +1,176 @@
+import type { BigNumberLike } from "./BigNumber"
+import type { ContentLoadError } from "./ContentProvider"
+import type { MultiplierBreakdown, MultiplierSource } from "./Multipliers"
 import type { RootStore } from "./RootStore"
 
-import type { GainMultiplier, Resource, Resources } from "./shared"
-import { makeAutoObservable } from "mobx"
+import type { GainMultiplier, Resource, ResourceAmounts, ResourcesSnapshot } from "./shared"
+import { computed, makeAutoObservable } from "mobx"
+import { z } from "zod"
+import { BigNumber, fitResourceAmount, parseResourceAmount } from "./BigNumber"
+import { toContentLoadError } from "./ContentProvider"
+import { explainContributions, MULTIPLIER_SOURCES } from "./Multipliers"
 import {
-
-  nonNegativeIntegerSchema,
+  createResourceAmounts,
+  fromResourcesSnapshot,
+  gainMultipliers,
   nonNegativeNumberSchema,
-
   RESOURCES,
-
   resourceSchema,
-  resourcesSchema,
+  resourcesSnapshotSchema,
+  toResourcesSnapshot,
 } from "./shared"
 
+const resourceProductionSchema = z.discriminatedUnion("type", [
+  // Workers listing the resource in their production, scaled by workersEfficiency
+  z.object({ type: z.literal("workers"), base: nonNegativeNumberSchema.default(1) }),
+  // A share of another resource's current amount each round, the way money follows reputation
+  z.object({ type: z.literal("conversion"), from: resourceSchema, rate: nonNegativeNumberSchema }),
+])
+
+export const resourceDefinitionSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  // Passive production each round, none when missing (e.g. only granted by operations)
+  production: resourceProductionSchema.optional(),
+  // Kept on prestige instead of reset like the core resources
+  persistsThroughPrestige: z.boolean().default(false),
+}).readonly()
+
+export type ResourceDefinition = z.infer<typeof resourceDefinitionSchema>
+
+// Declared ids must be new: a core id would replace the engine's own rates, a repeated one would be counted twice
+export const resourceDefinitionsSchema = z.array(resourceDefinitionSchema).superRefine((definitions, ctx) => {
+  const seen = new Set<string>(RESOURCES)
+  definitions.forEach((definition, index) => {
+    if (seen.has(definition.id)) {
+      ctx.addIssue({
+        code: "custom",
+        path: [index, "id"],
+        message: (RESOURCES as readonly string[]).includes(definition.id)
+          ? `Resource "${definition.id}" is a core resource and can't be declared`
+          : `Duplicate resources id "${definition.id}"`,
+      })
+    }
+    seen.add(definition.id)
+  })
+})
+
+export type ResourceDefinitions = z.infer<typeof resourceDefinitionsSchema>
+
 export class ResourcesStore {
   constructor(private root: RootStore) {
-    makeAutoObservable(this)
+    // Kept alive so rounds and previews outside reactions reuse the breakdowns too
+    makeAutoObservable(this, { multiplierBreakdowns: computed({ keepAlive: true }) })
+  }
+
+  state: "pending" | "ready" | "error" = "pending"
+
+  loadError: ContentLoadError | null = null
+
+  // Resources declared by the content next to the core ones, the resources file is optional
+  definitions: ResourceDefinitions = []
+
+  // Core resources first, then declared ones in content order
+  get resourceIds(): Resource[] {
+    return [...RESOURCES, ...this.definitions.map(definition => definition.id)]
   }
 
-  state = "ready"
+  get mappedDefinitions(): Map<Resource, ResourceDefinition> {
+    return new Map(this.definitions.map(definition => [definition.id, definition]))
+  }
+
+  * loadResources() {
+    try {
+      const response: unknown = yield this.root.dataSource.fetchResources()
+      this.definitions = resourceDefinitionsSchema.parse(response)
+      this.state = "ready"
+      this.loadError = null
+    }
+    catch (e) {
+      console.error("Failed to load resources:", e)
+      this.loadError = toContentLoadError("resources", e)
+      if (this.state !== "ready") {
+        this.state = "error"
+      }
+    }
+  }
+
+  // Exact balances, the number getters below are views of them capped at Number.MAX_VALUE.
+  // Declared resources appear once they are first added.
+  amounts: ResourceAmounts = createResourceAmounts()
 
   // Produced automatically each round, consumed by clicks and operations
-  energy = 0
+  get energy(): number {
+    return this.amounts.energy.toNumber()
+  }
+
   // Produced by clicking or automatically if suitable workers are present
-  output = 0
+  get output(): number {
+    return this.amounts.output.toNumber()
+  }
+
   // Produced by finished operations, upgrades and prestige bonuses
-  reputation = 0
+  get reputation(): number {
+    return this.amounts.reputation.toNumber()
+  }
+
   // Produced by reputation over time, used to buy upgrades, workers or start operations
-  money = 0
+  get money(): number {
+    return this.amounts.money.toNumber()
+  }
 
-  addResource(resource: Resource, amount: number) {
-    this[resource] += nonNegativeIntegerSchema.parse(amount)
+  // Current amounts through root.format, for display
+  get formattedAmounts(): Record<Resource, string> {
+    // resourceIds starts with every core resource
+    return Object.fromEntries(this.resourceIds.map(resource => [resource, this.root.format.number(this.getAmount(resource))])) as Record<Resource, string>
+  }
+
+  getAmount(resource: Resource): BigNumber {
+    return this.amounts[resource] ?? BigNumber.ZERO
+  }
+
+  addResource(resource: Resource, amount: BigNumberLike) {
+    if (!this.resourceIds.includes(resource)) {
+      throw new Error(`Unknown resource: ${resource}`)
+    }
+    const { numberMode } = this.root
+    const value = parseResourceAmount(amount, numberMode)
+    this.amounts[resource] = fitResourceAmount(this.getAmount(resource).add(value), numberMode)
     this.root.sync.markDirty("resources")
-    this.root.achievements.addResourceTotals(resource, amount)
+    this.root.achievements.addResourceTotals(resource, value)
   }
 
   // Returns true if the resource was successfully spent
-  spendResource(resource: Resource, amount: number): boolean {
-    if (this[resource] >= amount) {
-      this[resource] -= nonNegativeIntegerSchema.parse(amount)
+  spendResource(resource: Resource, amount: BigNumberLike): boolean {
+    if (this.getAmount(resource).gte(amount)) {
+      this.amounts[resource] = this.getAmount(resource).sub(parseResourceAmount(amount, this.root.numberMode))
       this.root.sync.markDirty("resources")
       return true
     }
     return false
   }
 
-  spendResourcesByCost(cost: Partial<Resources>, multiplier: number) {
+  spendResourcesByCost(cost: Partial<Record<Resource, BigNumberLike>>, multiplier: number) {
     // Pre-compute required rounded amounts to keep the operation atomic
-    const required = new Map<Resource, number>()
+    const required = new Map<Resource, BigNumber>()
     for (const [k, v] of Object.entries(cost)) {
       const resource = resourceSchema.parse(k)
-      required.set(resource, Math.ceil(v * multiplier))
+      if (v !== undefined) {
+        required.set(resource, BigNumber.from(v).mul(multiplier).ceil())
+      }
     }
 
     // Abort early if any resource is insufficient
     for (const [resource, amount] of required) {
-      if (this[resource] < amount) {
+      if (this.getAmount(resource).lt(amount)) {
         return false
       }
     }
 
     // Deduct after validation
     for (const [resource, amount] of required) {
-      this[resource] -= nonNegativeIntegerSchema.parse(amount)
+      this.amounts[resource] = this.getAmount(resource).sub(parseResourceAmount(amount, this.root.numberMode))
     }
 
     this.root.sync.markDirty("resources")
@@ -70,77 +178,120 @@ export class ResourcesStore {
   }
 
   getMultipliers(key: GainMultiplier): number {
-    return nonNegativeNumberSchema.parse(
-      this.root.achievements.multipliers.get(key)!
-      * this.root.upgrades.multipliers.get(key)!
-      * this.root.prestige.multipliers.get(key)!
-      * this.root.operations.multipliers.get(key)!,
+    return nonNegativeNumberSchema.parse(this.multiplierBreakdowns[key].total)
+  }
+
+  // Breakdown of every multiplier from all sources, recomputed only when a contribution or limit changes
+  get multiplierBreakdowns(): Record<GainMultiplier, MultiplierBreakdown> {
+    return Object.fromEntries(gainMultipliers.map(key => [key, this.explainMultiplier(key)])) as Record<GainMultiplier, MultiplierBreakdown>
+  }
+
+  // Every effect behind a multiplier, grouped by source store, e.g. for a tooltip or balance debugging
+  explainMultiplier(key: GainMultiplier, sources: readonly MultiplierSource[] = MULTIPLIER_SOURCES): MultiplierBreakdown {
+    const { achievements, upgrades, prestige, operations } = this.root
+    const contributions = {
+      achievements: achievements.multiplierContributions,
+      upgrades: upgrades.multiplierContributions,
+      prestige: prestige.multiplierContributions,
+      operations: operations.multiplierContributions,
+    }
+    return explainContributions(
+      key,
+      Object.fromEntries(sources.map(source => [source, contributions[source]])),
+      this.root.config.multiplierLimits,
     )
   }
 
-  // Calculated per round based on workers, upgrades and prestige bonuses
-  get energyPerRound() {
-    const rate = this.root.config.baseEnergyProduction
-      * this.root.workers.totalEnergyProduction
-      * this.getMultipliers("workersEfficiency")
-      * this.getMultipliers("energyGain")
-    // Math.ceil to avoid 0 energy production per round
-    return Math.ceil(rate)
+  // Exact production of one round, calculated from workers, reputation, upgrades and prestige bonuses.
+  // Reputation is only granted by operations. Declared resources produce as their definition says.
+  get ratesPerRound(): ResourceAmounts {
+    const { config, workers } = this.root
+    const workersEfficiency = this.getMultipliers("workersEfficiency")
+    // ceil to avoid 0 production per round
+    const rates: ResourceAmounts = {
+      energy: BigNumber.from(config.baseEnergyProduction)
+        .mul(BigNumber.from(workers.totalEnergyProduction).pow(config.energyDiminishingReturnsExponent))
+        .mul(workersEfficiency)
+        .mul(this.getMultipliers("energyGain"))
+        .ceil(),
+      output: BigNumber.from(config.baseOutputProduction)
+        .mul(BigNumber.from(workers.totalOutputProduction).pow(config.outputDiminishingReturnsExponent))
+        .mul(workersEfficiency)
+        .mul(this.getMultipliers("outputGain"))
+        .ceil(),
+      reputation: BigNumber.ZERO,
+      money: BigNumber.from(config.moneyPerReputation)
+        .mul(this.amounts.reputation.pow(config.reputationDiminishingReturnsExponent))
+        .mul(this.getMultipliers("moneyGain"))
+        .ceil(),
+    }
+    for (const definition of this.definitions) {
+      rates[definition.id] = this.getDeclaredRate(definition, workersEfficiency)
+    }
+    return rates
+  }
+
+  private getDeclaredRate({ id, production }: ResourceDefinition, workersEfficiency: number): BigNumber {
+    switch (production?.type) {
+      case "workers":
+        return BigNumber.from(production.base).mul(this.root.workers.getProduction(id)).mul(workersEfficiency).ceil()
+      case "conversion":
+        return this.getAmount(production.from).mul(production.rate).ceil()
+      case undefined:
+        return BigNumber.ZERO
+    }
+  }
+
+  get energyPerRound(): number {
+    return this.ratesPerRound.energy.toNumber()
   }
 
-  get outputPerRound() {
-    const rate = this.root.config.baseOutputProduction
-      * this.root.workers.totalOutputProduction
-      * this.getMultipliers("workersEfficiency")
-      * this.getMultipliers("outputGain")
-    // Math.ceil to avoid 0 output production per round
-    return Math.ceil(rate)
+  get outputPerRound(): number {
+    return this.ratesPerRound.output.toNumber()
   }
 
-  // Calculated per round based on reputation, upgrades and prestige bonuses
-  get moneyPerRound() {
-    const rate = this.root.config.moneyPerReputation
-      * this.reputation
-      * this.getMultipliers("moneyGain")
-    // Math.ceil to avoid 0 money production per round
-    return Math.ceil(rate)
+  get moneyPerRound(): number {
+    return this.ratesPerRound.money.toNumber()
   }
 
-  // Called automatically each round to add passive resources
-  round() {
+  get formattedRatesPerRound(): Record<Resource, string> {
+    return Object.fromEntries(Object.entries(this.ratesPerRound).map(([resource, rate]) => [resource, this.root.format.number(rate)])) as Record<Resource, string>
+  }
+
+  // Called automatically each round to add passive resources, `scale` is the number of rounds the round stands for
+  round(scale = 1) {
     // Expire bonuses before calculating resources for this round
     this.root.operations.expireBonuses()
 
-    if (this.energyPerRound >= 1) {
-      this.addResource("energy", this.energyPerRound)
-    }
-    if (this.outputPerRound >= 1) {
-      this.addResource("output", this.outputPerRound)
-    }
-    if (this.moneyPerRound >= 1) {
-      this.addResource("money", this.moneyPerRound)
+    for (const [resource, rate] of Object.entries(this.ratesPerRound)) {
+      const amount = rate.mul(scale).floor()
+      if (amount.gte(1)) {
+        this.addResource(resource, amount)
+      }
     }
   }
 
-  getSnapshot(): Resources {
-    return {
-      energy: this.energy,
-      output: this.output,
-      reputation: this.reputation,
-      money: this.money,
-    }
+  getSnapshot(): ResourcesSnapshot {
+    return toResourcesSnapshot(this.amounts, this.root.numberMode)
   }
 
-  loadSnapshot(snapshot: { resources: Resources }) {
-    const validated = resourcesSchema.parse(snapshot.resources)
-    for (const resource of RESOURCES) {
-      this[resource] = validated[resource]
+  loadSnapshot(snapshot: { resources: ResourcesSnapshot }) {
+    this.amounts = fromResourcesSnapshot(resourcesSnapshotSchema.parse(snapshot.resources), this.root.numberMode)
+  }
+
+  // Declared resources that persist through prestige keep their amounts
+  resetForPrestige() {
+    const amounts = createResourceAmounts()
+    for (const definition of this.definitions) {
+      const amount = this.amounts[definition.id]
+      if (definition.persistsThroughPrestige && amount) {
+        amounts[definition.id] = amount
+      }
     }
+    this.amounts = amounts
   }
 
   reset() {
-    for (const resource of RESOURCES) {
-      this[resource] = 0
-    }
+    this.amounts = createResourceAmounts()
   }
 }
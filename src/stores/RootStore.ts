@@ -1,29 +1,56 @@
+import type { NumberMode } from "./BigNumber"
+import type { Clock, TimerId } from "./Clock"
+import type { ContentKey, ContentLoadError } from "./ContentProvider"
+import type { ContentValidationResult } from "./ContentValidation"
 import type { RootStoreOptions } from "./RootStoreOptions"
+import type { StorageAdapter } from "./StorageAdapter"
 
-import { computed, makeObservable } from "mobx"
+import { action, computed, flowResult, makeObservable, observable, runInAction, toJS } from "mobx"
 import { AchievementsStore } from "./AchievementsStore"
+import { SystemClock } from "./Clock"
 import { CodexStore } from "./CodexStore"
 import { ConfigStore } from "./ConfigStore"
 import { ConfirmationStore } from "./ConfirmationStore"
+import { CONTENT_KEYS, createContentProvider } from "./ContentProvider"
+import { validateContent } from "./ContentValidation"
 import { EngineDataSource } from "./EngineDataSource"
+import { EngineEvents } from "./EngineEvents"
+import { FormatStore } from "./FormatStore"
 import { GameStore } from "./GameStore"
 import { LevelStore } from "./LevelStore"
+import { LocalizationStore } from "./LocalizationStore"
+import { ManagersStore } from "./ManagersStore"
+import { OfflineStore } from "./OfflineStore"
 import { OperationsStore } from "./OperationsStore"
 import { PrestigeStore } from "./PrestigeStore"
+import { ProjectionsStore } from "./ProjectionsStore"
 import { ResourcesStore } from "./ResourcesStore"
+import { SaveSlotsStore } from "./SaveSlotsStore"
 import { STORES_TO_SYNC } from "./shared"
+import { createDefaultStorage } from "./StorageAdapter"
 import { SyncStore } from "./SyncStore"
+import { ThemeStore } from "./ThemeStore"
 import { ToastStore } from "./ToastStore"
 import { UpgradesStore } from "./UpgradesStore"
 import { WorkersStore } from "./WorkersStore"
 
+export type EnginePhase = "created" | "loadingContent" | "loadingSave" | "ready" | "running" | "disposed"
+
 export class RootStore {
   constructor(options: RootStoreOptions) {
     this.options = options
-    this.dataSource = new EngineDataSource(options.dataUrls)
+    this.clock = options.clock ?? new SystemClock()
+    this.numberMode = options.numberMode ?? "standard"
+    this.dataSource = new EngineDataSource(createContentProvider(options))
+    this.events = new EngineEvents()
+    this.storage = options.storage ?? createDefaultStorage()
 
     this.config = new ConfigStore(this)
     this.sync = new SyncStore(this)
+    this.slots = new SaveSlotsStore(this)
+    this.localization = new LocalizationStore(this)
+    this.theme = new ThemeStore(this)
+    this.format = new FormatStore(this)
     this.toast = new ToastStore(this)
     this.confirmation = new ConfirmationStore(this)
     this.resources = new ResourcesStore(this)
@@ -34,18 +61,36 @@ export class RootStore {
     this.upgrades = new UpgradesStore(this)
     this.achievements = new AchievementsStore(this)
     this.prestige = new PrestigeStore(this)
+    this.managers = new ManagersStore(this)
+    this.offline = new OfflineStore(this)
+    this.projections = new ProjectionsStore(this)
     this.game = new GameStore(this)
 
-    makeObservable(this, {
+    makeObservable<this, "lifecycle" | "validateLoadedContent">(this, {
+      lifecycle: observable,
+      phase: computed,
+      locale: computed,
       dataReady: computed,
+      contentErrors: computed,
+      contentValidation: observable.ref,
+      contentReloading: observable,
+      validateLoadedContent: action,
     })
   }
 
   readonly options: RootStoreOptions
+  readonly clock: Clock
+  readonly numberMode: NumberMode
   readonly dataSource: EngineDataSource
+  readonly events: EngineEvents
+  readonly storage: StorageAdapter
 
   readonly config: ConfigStore
   readonly sync: SyncStore
+  readonly slots: SaveSlotsStore
+  readonly localization: LocalizationStore
+  readonly theme: ThemeStore
+  readonly format: FormatStore
   readonly toast: ToastStore
   readonly confirmation: ConfirmationStore
   readonly resources: ResourcesStore
@@ -56,11 +101,242 @@ export class RootStore {
   readonly upgrades: UpgradesStore
   readonly achievements: AchievementsStore
   readonly prestige: PrestigeStore
+  readonly managers: ManagersStore
+  readonly offline: OfflineStore
+  readonly projections: ProjectionsStore
   readonly game: GameStore
 
+  private lifecycle: Exclude<EnginePhase, "running"> = "created"
+
+  get phase(): EnginePhase {
+    return this.lifecycle === "ready" && this.game.running ? "running" : this.lifecycle
+  }
+
+  // Current locale of localized text, observable like the rest of the engine state
+  get locale(): string {
+    return this.localization.locale
+  }
+
+  setLocale(locale: string): void {
+    this.localization.setLocale(locale)
+  }
+
+  private get disposed(): boolean {
+    return this.lifecycle === "disposed"
+  }
+
+  // Cross-reference check of the loaded content, null until every store is ready
+  contentValidation: ContentValidationResult | null = null
+
+  contentReloading = false
+
+  private reloadingContent: Promise<boolean> | undefined
+
+  private hotReloadTimer: TimerId | undefined
+
+  private retryTimer: { id: TimerId, resolve: () => void } | undefined
+
   get dataReady(): boolean {
     return STORES_TO_SYNC.every((store) => {
       return this[store].state === "ready"
     })
   };
+
+  // Loads the config and all content, then the active save with offline progress. Start the game once it resolves.
+  // Failed content is retried like reloadContent(), if it still fails init() rejects and can be called again.
+  async init(options: { retries?: number, retryDelay?: number } = {}): Promise<void> {
+    if (this.lifecycle !== "created") {
+      throw new Error(`Cannot init the engine in the ${this.phase} phase`)
+    }
+    this.setLifecycle("loadingContent")
+    if (!(await this.reloadContent({ ...options, all: true }))) {
+      if (this.phase === "loadingContent") {
+        this.setLifecycle("created")
+      }
+      throw new Error(`Failed to load game content: ${this.contentErrors.map(error => error.key).join(", ")}`)
+    }
+    // Disposed while loading
+    if (this.disposed) {
+      return
+    }
+    // After the content, so a content pack is fetched once. Nothing reads the config until the save loads.
+    try {
+      await flowResult(this.config.loadConfig())
+    }
+    catch (e) {
+      if (this.phase === "loadingContent") {
+        this.setLifecycle("created")
+      }
+      throw new Error(`Failed to load game config: ${e instanceof Error ? e.message : String(e)}`, { cause: e })
+    }
+    if (this.disposed) {
+      return
+    }
+    this.validateLoadedContent()
+
+    this.setLifecycle("loadingSave")
+    try {
+      // Applies offline progress as well
+      await flowResult(this.sync.load())
+    }
+    catch (e) {
+      // A save this version can't load leaves a playable new game with the slot locked against autosave.
+      // init() still resolves, the reason is in sync.error.
+      console.error("Failed to load save:", e)
+    }
+    if (this.phase === "loadingSave") {
+      this.setLifecycle("ready")
+    }
+    if (this.options.hotReloadInterval && !this.disposed) {
+      this.startContentHotReload(this.options.hotReloadInterval)
+    }
+  }
+
+  // Stops the game and clears every timer, for discarding the engine (tests, HMR). No final save is made.
+  dispose(): void {
+    if (this.disposed) {
+      return
+    }
+    this.setLifecycle("disposed")
+    this.stopContentHotReload()
+    if (this.retryTimer) {
+      this.clock.clearTimeout(this.retryTimer.id)
+      this.retryTimer.resolve()
+      this.retryTimer = undefined
+    }
+    this.game.dispose()
+    this.operations.dispose()
+    this.toast.dispose()
+    this.events.clear()
+  }
+
+  // Why content failed to load, one entry per failed content key
+  get contentErrors(): ContentLoadError[] {
+    return CONTENT_KEYS
+      .map(key => this.getContentLoader(key).store.loadError)
+      .filter(error => error !== null)
+  }
+
+  // Loads failed content again, retrying with exponential backoff. With `all`, re-fetches every content key
+  // and swaps the definitions in place, keeping player state. Resolves to whether every load succeeded.
+  reloadContent(options: { all?: boolean, retries?: number, retryDelay?: number } = {}): Promise<boolean> {
+    this.reloadingContent ??= this.runContentReload(options).finally(() => {
+      this.reloadingContent = undefined
+    })
+    return this.reloadingContent
+  }
+
+  // Development mode: re-fetches all content every `interval` ms
+  startContentHotReload(interval: number) {
+    this.stopContentHotReload()
+    this.hotReloadTimer = this.clock.setTimeout(async () => {
+      await this.reloadContent({ all: true, retries: 0 })
+      if (this.hotReloadTimer !== undefined) {
+        this.startContentHotReload(interval)
+      }
+    }, interval)
+  }
+
+  stopContentHotReload() {
+    if (this.hotReloadTimer !== undefined) {
+      this.clock.clearTimeout(this.hotReloadTimer)
+      this.hotReloadTimer = undefined
+    }
+  }
+
+  private async runContentReload({ all = false, retries = 3, retryDelay = 1000 }): Promise<boolean> {
+    const wasReady = this.dataReady
+    if (all) {
+      this.dataSource.provider.invalidate?.()
+    }
+    runInAction(() => {
+      this.contentReloading = true
+    })
+    let keys = CONTENT_KEYS.filter(key => all || this.getContentLoader(key).store.state === "error")
+    for (let attempt = 0; keys.length > 0 && attempt <= retries; attempt++) {
+      if (attempt > 0) {
+        await this.waitForRetry(retryDelay * 2 ** (attempt - 1))
+      }
+      if (this.disposed) {
+        break
+      }
+      await Promise.all(keys.map(key => this.getContentLoader(key).load()))
+      keys = keys.filter(key => this.getContentLoader(key).store.loadError !== null)
+    }
+    runInAction(() => {
+      this.contentReloading = false
+    })
+    // The first time every store becomes ready, init() runs the validation
+    if (wasReady && this.dataReady) {
+      this.validateLoadedContent()
+    }
+    return keys.length === 0
+  }
+
+  private waitForRetry(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const id = this.clock.setTimeout(() => {
+        this.retryTimer = undefined
+        resolve()
+      }, ms)
+      this.retryTimer = { id, resolve }
+    })
+  }
+
+  private setLifecycle(lifecycle: Exclude<EnginePhase, "running">) {
+    runInAction(() => {
+      this.lifecycle = lifecycle
+    })
+  }
+
+  private getContentLoader(key: ContentKey) {
+    switch (key) {
+      case "workers":
+        return { store: this.workers, load: () => flowResult(this.workers.loadWorkers()) }
+      case "levels":
+        return { store: this.level, load: () => flowResult(this.level.loadLevels()) }
+      case "operations":
+        return { store: this.operations, load: () => flowResult(this.operations.loadData()) }
+      case "upgrades":
+        return { store: this.upgrades, load: () => flowResult(this.upgrades.loadUpgrades()) }
+      case "achievements":
+        return { store: this.achievements, load: () => flowResult(this.achievements.loadAchievements()) }
+      case "articles":
+        return { store: this.codex, load: () => flowResult(this.codex.loadArticles()) }
+      case "prestigeUpgrades":
+        return { store: this.prestige, load: () => flowResult(this.prestige.loadData()) }
+      case "resources":
+        return { store: this.resources, load: () => flowResult(this.resources.loadResources()) }
+      case "theme":
+        return { store: this.theme, load: () => flowResult(this.theme.loadTheme()) }
+      case "locales":
+        return { store: this.localization, load: () => flowResult(this.localization.loadLocales()) }
+      case "managers":
+        return { store: this.managers, load: () => flowResult(this.managers.loadManagers()) }
+    }
+  }
+
+  private validateLoadedContent() {
+    // Plain copies, observable records carry a MobX symbol key the record schemas reject
+    const result = validateContent({
+      workers: toJS(this.workers.workers),
+      levels: toJS(this.level.levels),
+      operations: toJS(this.operations.operations),
+      upgrades: toJS(this.upgrades.upgrades),
+      achievements: toJS(this.achievements.achievements),
+      articles: toJS(this.codex.articles),
+      prestigeUpgrades: toJS(this.prestige.upgrades),
+      resources: toJS(this.resources.definitions),
+      theme: toJS(this.theme.manifest),
+      locales: toJS(this.localization.locales),
+      managers: toJS(this.managers.managers),
+    })
+    if (result.errors.length > 0) {
+      console.error("Game content has errors:", result.errors)
+    }
+    if (result.warnings.length > 0) {
+      console.warn("Game content has warnings:", result.warnings)
+    }
+    this.contentValidation = result
+  }
 }
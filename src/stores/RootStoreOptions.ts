@@ -1,11 +1,35 @@
+import type { NumberMode } from "./BigNumber"
+import type { Clock } from "./Clock"
+import type { EngineConfigOverrides } from "./ConfigStore"
+import type { ContentProvider, DataUrls, GameContent } from "./ContentProvider"
+import type { SaveMigration } from "./SaveMigrator"
+import type { StorageAdapter } from "./StorageAdapter"
+
 export interface RootStoreOptions {
-  dataUrls: {
-    workers: string
-    levels: string
-    operations: string
-    upgrades: string
-    achievements: string
-    articles: string
-    prestigeUpgrades: string
-  }
+  // URL of each content file, used when neither content nor contentProvider is set
+  dataUrls?: DataUrls
+  // Content objects passed in directly, e.g. bundled JSON imports
+  content?: GameContent
+  // Custom content source (content pack, custom loader), takes precedence over content and dataUrls
+  contentProvider?: ContentProvider
+  // Custom fetch implementation for loading dataUrls, defaults to globalThis.fetch
+  fetcher?: typeof fetch
+  // Balance and engine settings merged over the defaults, and over a config.json of the content provider
+  config?: EngineConfigOverrides
+  // Development only: re-fetches all content this often (ms), keeping player state
+  hotReloadInterval?: number
+  // Where saves are persisted, defaults to localStorage when available and memory otherwise
+  storage?: StorageAdapter
+  // Save key of this game, defaults to "ocean_explorer_save"
+  saveKey?: string
+  // Upgrades older saves before validation, see SaveMigrator
+  migrations?: SaveMigration[]
+  // "big" lifts the Number.MAX_SAFE_INTEGER limit of resource amounts for late-game balance, defaults to "standard"
+  numberMode?: NumberMode
+  // Locale shown first, defaults to fallbackLocale. Can be switched at runtime with setLocale().
+  locale?: string
+  // Locale whose string table fills keys the current locale doesn't translate, defaults to "en"
+  fallbackLocale?: string
+  // Time source for every store, defaults to the real time (SystemClock)
+  clock?: Clock
 }
@@ -0,0 +1,225 @@
+// Portable save strings: "cge<format>.<crc32>.<payload>", where the payload is LZW-compressed JSON in base64url
+
+export const SAVE_STRING_FORMAT = 1
+
+const SAVE_STRING_PATTERN = /^cge(\d+)\.([0-9a-f]{8})\.([\w-]+)$/
+
+const BASE64_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_"
+
+export class SaveImportError extends Error {
+  constructor(
+    readonly reason: "format" | "version" | "checksum" | "corrupted" | "invalid",
+    message: string,
+    readonly issues: unknown[] = [],
+  ) {
+    super(message)
+    this.name = "SaveImportError"
+  }
+}
+
+function bitLength(value: number): number {
+  return Math.max(1, 32 - Math.clz32(value))
+}
+
+class BitWriter {
+  private bytes: number[] = []
+  private current = 0
+  private filled = 0
+
+  write(value: number, width: number): void {
+    for (let i = width - 1; i >= 0; i--) {
+      this.current = (this.current << 1) | ((value >>> i) & 1)
+      this.filled++
+      if (this.filled === 8) {
+        this.bytes.push(this.current)
+        this.current = 0
+        this.filled = 0
+      }
+    }
+  }
+
+  finish(): number[] {
+    if (this.filled > 0) {
+      this.bytes.push(this.current << (8 - this.filled))
+      this.current = 0
+      this.filled = 0
+    }
+    return this.bytes
+  }
+}
+
+class BitReader {
+  private position = 0
+
+  constructor(private bytes: number[]) {}
+
+  read(width: number): number {
+    let value = 0
+    for (let i = 0; i < width; i++) {
+      const byte = this.bytes[this.position >>> 3]
+      if (byte === undefined) {
+        throw new SaveImportError("corrupted", "Save string is truncated")
+      }
+      const bit = (byte >>> (7 - (this.position & 7))) & 1
+      value = value * 2 + bit
+      this.position++
+    }
+    return value
+  }
+}
+
+// LZW over UTF-16 code units; the alphabet of the input is written up front so the dictionary stays small
+function compress(input: string): number[] {
+  const alphabet: number[] = []
+  const dictionary = new Map<string, number>()
+  for (let i = 0; i < input.length; i++) {
+    const char = input.charAt(i)
+    if (!dictionary.has(char)) {
+      dictionary.set(char, alphabet.length)
+      alphabet.push(input.charCodeAt(i))
+    }
+  }
+
+  const codes: number[] = []
+  let next = alphabet.length
+  let phrase = ""
+  for (let i = 0; i < input.length; i++) {
+    const char = input.charAt(i)
+    const extended = phrase + char
+    if (dictionary.has(extended)) {
+      phrase = extended
+      continue
+    }
+    codes.push(dictionary.get(phrase)!)
+    dictionary.set(extended, next++)
+    phrase = char
+  }
+  if (phrase) {
+    codes.push(dictionary.get(phrase)!)
+  }
+
+  const writer = new BitWriter()
+  writer.write(alphabet.length, 16)
+  for (const code of alphabet) {
+    writer.write(code, 16)
+  }
+  writer.write(codes.length, 32)
+  codes.forEach((code, index) => {
+    // Upper bound of any code at this position, known to the decoder as well
+    writer.write(code, bitLength(alphabet.length + index))
+  })
+  return writer.finish()
+}
+
+function decompress(bytes: number[]): string {
+  const reader = new BitReader(bytes)
+  const alphabetLength = reader.read(16)
+  const dictionary: string[] = []
+  for (let i = 0; i < alphabetLength; i++) {
+    dictionary.push(String.fromCharCode(reader.read(16)))
+  }
+  const count = reader.read(32)
+  if (count === 0) {
+    return ""
+  }
+
+  const parts: string[] = []
+  let previous = dictionary[reader.read(bitLength(alphabetLength))]
+  if (previous === undefined) {
+    throw new SaveImportError("corrupted", "Save string contains an unknown code")
+  }
+  parts.push(previous)
+  for (let index = 1; index < count; index++) {
+    const code = reader.read(bitLength(alphabetLength + index))
+    let entry = dictionary[code]
+    if (entry === undefined) {
+      // The only code the decoder may not know yet is the one being defined right now
+      if (code !== dictionary.length) {
+        throw new SaveImportError("corrupted", "Save string contains an unknown code")
+      }
+      entry = previous + previous.charAt(0)
+    }
+    parts.push(entry)
+    dictionary.push(previous + entry.charAt(0))
+    previous = entry
+  }
+  return parts.join("")
+}
+
+function toBase64Url(bytes: number[]): string {
+  let result = ""
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i]! << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0)
+    const chars = i + 2 < bytes.length ? 4 : i + 1 < bytes.length ? 3 : 2
+    for (let j = 0; j < chars; j++) {
+      result += BASE64_ALPHABET.charAt((chunk >>> (18 - j * 6)) & 63)
+    }
+  }
+  return result
+}
+
+function fromBase64Url(text: string): number[] {
+  const bytes: number[] = []
+  let buffer = 0
+  let bits = 0
+  for (const char of text) {
+    const value = BASE64_ALPHABET.indexOf(char)
+    if (value === -1) {
+      throw new SaveImportError("format", `Save string contains an invalid character: ${char}`)
+    }
+    buffer = ((buffer << 6) | value) & 0xFFFFFF
+    bits += 6
+    if (bits >= 8) {
+      bits -= 8
+      bytes.push((buffer >>> bits) & 0xFF)
+    }
+  }
+  return bytes
+}
+
+let crcTable: number[] | undefined
+
+function crc32(text: string): string {
+  crcTable ??= Array.from({ length: 256 }, (_, n) => {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1
+    }
+    return c >>> 0
+  })
+  let crc = 0xFFFFFFFF
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i)
+    crc = crcTable[(crc ^ code) & 0xFF]! ^ (crc >>> 8)
+    crc = crcTable[(crc ^ (code >>> 8)) & 0xFF]! ^ (crc >>> 8)
+  }
+  return ((crc ^ 0xFFFFFFFF) >>> 0).toString(16).padStart(8, "0")
+}
+
+export function encodeSaveString(save: unknown): string {
+  const json = JSON.stringify(save)
+  return `cge${SAVE_STRING_FORMAT}.${crc32(json)}.${toBase64Url(compress(json))}`
+}
+
+// Returns the raw parsed save data, schema validation is up to the caller
+export function decodeSaveString(text: string): unknown {
+  const match = SAVE_STRING_PATTERN.exec(text.replace(/\s+/g, ""))
+  if (!match) {
+    throw new SaveImportError("format", "Not a save string")
+  }
+  const [, format, checksum, payload] = match as unknown as [string, string, string, string]
+  if (Number(format) !== SAVE_STRING_FORMAT) {
+    throw new SaveImportError("version", `Unsupported save string format ${format}`)
+  }
+
+  const json = decompress(fromBase64Url(payload))
+  if (crc32(json) !== checksum) {
+    throw new SaveImportError("checksum", "Save string checksum does not match, it was modified or truncated")
+  }
+  try {
+    return JSON.parse(json)
+  }
+  catch {
+    throw new SaveImportError("corrupted", "Save string does not contain valid save data")
+  }
+}
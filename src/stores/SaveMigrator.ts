@@ -0,0 +1,156 @@
+export type RawSave = Record<string, unknown>
+
+export interface SaveMigration {
+  // Version the migration upgrades a save to, e.g. "1.2.0"
+  version: string
+  description?: string
+  migrate: (save: RawSave) => RawSave
+}
+
+export interface SaveMigrationReport {
+  fromVersion: string
+  toVersion: string
+  applied: Pick<SaveMigration, "version" | "description">[]
+  // Migrations of the engine's own save format, run before the game's
+  engineApplied: Pick<SaveMigration, "version" | "description">[]
+}
+
+// Format of the saves this engine writes, stored in `engineVersion` next to the game's `version`.
+// Bumped with a migration below whenever the engine changes the meaning of saved data.
+export const ENGINE_SAVE_VERSION = "2"
+
+function toSeconds(ms: unknown): unknown {
+  return typeof ms === "number" ? Math.floor(ms / 1000) : ms
+}
+
+// Saves without `engineVersion` are format "1"
+const ENGINE_MIGRATIONS: SaveMigration[] = [
+  {
+    version: "2",
+    description: "Playtime counters in seconds instead of milliseconds",
+    migrate: (save) => {
+      if (!isRawSave(save.prestige)) {
+        return save
+      }
+      const { prestige } = save
+      return {
+        ...save,
+        prestige: {
+          ...prestige,
+          currentRunSeconds: toSeconds(prestige.currentRunSeconds),
+          totalPlaytimeSeconds: toSeconds(prestige.totalPlaytimeSeconds),
+          stats: isRawSave(prestige.stats)
+            ? { ...prestige.stats, fastestRunSeconds: toSeconds(prestige.stats.fastestRunSeconds) }
+            : prestige.stats,
+        },
+      }
+    },
+  },
+]
+
+// Thrown instead of loading a save written by a newer game version, so it is never overwritten
+export class NewerSaveVersionError extends Error {
+  constructor(readonly saveVersion: string, readonly gameVersion: string) {
+    super(`Save version ${saveVersion} is newer than game version ${gameVersion}`)
+    this.name = "NewerSaveVersionError"
+  }
+}
+
+export class SaveMigrationError extends Error {
+  constructor(readonly version: string, readonly cause: unknown) {
+    super(`Save migration to ${version} failed: ${cause instanceof Error ? cause.message : String(cause)}`)
+    this.name = "SaveMigrationError"
+  }
+}
+
+// Compares dot-separated versions numerically ("1.10.0" > "1.9.2"), non-numeric parts as strings
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split(/[.-]/)
+  const partsB = b.split(/[.-]/)
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const partA = partsA[i] ?? "0"
+    const partB = partsB[i] ?? "0"
+    const numberA = Number(partA)
+    const numberB = Number(partB)
+    const diff = Number.isNaN(numberA) || Number.isNaN(numberB)
+      ? partA.localeCompare(partB)
+      : numberA - numberB
+    if (diff !== 0) {
+      return Math.sign(diff)
+    }
+  }
+  return 0
+}
+
+function isRawSave(value: unknown): value is RawSave {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+// Applies the sorted migrations newer than `fromVersion` and not newer than `targetVersion`
+function runMigrations(
+  migrations: SaveMigration[],
+  raw: RawSave,
+  versionKey: "version" | "engineVersion",
+  fromVersion: string,
+  targetVersion: string,
+): { save: RawSave, applied: SaveMigrationReport["applied"] } {
+  let save = raw
+  const applied: SaveMigrationReport["applied"] = []
+  for (const migration of migrations) {
+    if (compareVersions(migration.version, fromVersion) <= 0 || compareVersions(migration.version, targetVersion) > 0) {
+      continue
+    }
+    try {
+      save = { ...migration.migrate(save), [versionKey]: migration.version }
+    }
+    catch (e) {
+      throw new SaveMigrationError(migration.version, e)
+    }
+    const { version, description } = migration
+    applied.push(description === undefined ? { version } : { version, description })
+  }
+  return { save, applied }
+}
+
+// Upgrades raw save data step by step through registered migrations before schema validation
+export class SaveMigrator {
+  private migrations: SaveMigration[] = []
+
+  constructor(migrations: SaveMigration[] = []) {
+    for (const migration of migrations) {
+      this.register(migration)
+    }
+  }
+
+  register(migration: SaveMigration): void {
+    if (this.migrations.some(m => compareVersions(m.version, migration.version) === 0)) {
+      throw new Error(`Save migration for version ${migration.version} is already registered`)
+    }
+    this.migrations.push(migration)
+    this.migrations.sort((a, b) => compareVersions(a.version, b.version))
+  }
+
+  migrate(raw: unknown, targetVersion: string): { save: unknown, report: SaveMigrationReport } {
+    if (!isRawSave(raw)) {
+      // Leave the shape error to schema validation
+      return { save: raw, report: { fromVersion: "", toVersion: targetVersion, applied: [], engineApplied: [] } }
+    }
+
+    // Saves written before versioning mattered may lack the field entirely
+    const fromVersion = typeof raw.version === "string" ? raw.version : "0.0.0"
+    if (compareVersions(fromVersion, targetVersion) > 0) {
+      throw new NewerSaveVersionError(fromVersion, targetVersion)
+    }
+    const fromEngineVersion = typeof raw.engineVersion === "string" ? raw.engineVersion : "1"
+    if (compareVersions(fromEngineVersion, ENGINE_SAVE_VERSION) > 0) {
+      throw new NewerSaveVersionError(fromEngineVersion, ENGINE_SAVE_VERSION)
+    }
+
+    const engine = runMigrations(ENGINE_MIGRATIONS, raw, "engineVersion", fromEngineVersion, ENGINE_SAVE_VERSION)
+    const game = runMigrations(this.migrations, engine.save, "version", fromVersion, targetVersion)
+    return {
+      save: { ...game.save, version: targetVersion, engineVersion: ENGINE_SAVE_VERSION },
+      report: { fromVersion, toVersion: targetVersion, applied: game.applied, engineApplied: engine.applied },
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import type { GameSaveSnapshot, SyncedStoreName } from "./shared"
+import { gameSaveSchema, STORES_TO_SYNC } from "./shared"
+
+export interface SaveRecoveryReport {
+  // Why the stored save could not be loaded
+  reason: string
+  // "backup" restored the newest valid backup, "partial" kept the valid parts of the save, "none" started a new game
+  source: "backup" | "partial" | "none"
+  // Timestamp of the restored data, null when it had none
+  timestamp: number | null
+  recoveredStores: SyncedStoreName[]
+  discardedStores: SyncedStoreName[]
+}
+
+// Keeps every store snapshot of a broken save that validates on its own, the rest comes from `defaults`
+export function salvageSave(save: unknown, defaults: GameSaveSnapshot): {
+  snapshot: GameSaveSnapshot
+  timestamp: number | null
+  recoveredStores: SyncedStoreName[]
+  discardedStores: SyncedStoreName[]
+} {
+  const source = typeof save === "object" && save !== null ? save as Record<string, unknown> : {}
+  const snapshot: GameSaveSnapshot = { ...defaults }
+  const recoveredStores: SyncedStoreName[] = []
+  const discardedStores: SyncedStoreName[] = []
+
+  for (const store of STORES_TO_SYNC) {
+    const result = gameSaveSchema.shape[store].safeParse(source[store])
+    if (result.success) {
+      // Each store only reads its own part of the snapshot
+      Object.assign(snapshot, { [store]: result.data })
+      recoveredStores.push(store)
+    }
+    else {
+      discardedStores.push(store)
+    }
+  }
+
+  const timestamp = gameSaveSchema.shape.timestamp.safeParse(source.timestamp)
+  if (timestamp.success) {
+    snapshot.timestamp = timestamp.data
+  }
+  return { snapshot, timestamp: timestamp.success ? timestamp.data : null, recoveredStores, discardedStores }
+}
@@ -0,0 +1,259 @@
+import type { RootStore } from "./RootStore"
+
+import type { GameSaveSnapshot } from "./shared"
+import { flowResult, makeAutoObservable, when } from "mobx"
+import { z } from "zod"
+import { gameSaveSchema } from "./shared"
+
+// The default slot keeps using the plain save key, so saves written before slots existed stay in place
+export const DEFAULT_SLOT_ID = "default"
+
+const saveSlotEntrySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  createdAt: z.number(),
+})
+
+const saveSlotsIndexSchema = z.object({
+  activeSlotId: z.string(),
+  slots: z.array(saveSlotEntrySchema).min(1),
+})
+
+type SaveSlotsIndex = z.infer<typeof saveSlotsIndexSchema>
+
+export interface SaveSlotMetadata {
+  timestamp: number
+  version: string
+  prestigeCount: number
+  currentLevel: number
+  currentLevelName: string | null // null until levels are loaded or if the level no longer exists
+  totalPlaytimeSeconds: number
+}
+
+export interface SaveSlot {
+  id: string
+  name: string
+  createdAt: number
+  active: boolean
+  metadata: SaveSlotMetadata | null // null while the slot has no readable save
+}
+
+interface SaveSlotEntry extends z.infer<typeof saveSlotEntrySchema> {
+  summary: Omit<SaveSlotMetadata, "currentLevelName"> | null
+}
+
+function summarize(snapshot: GameSaveSnapshot): SaveSlotEntry["summary"] {
+  return {
+    timestamp: snapshot.timestamp,
+    version: snapshot.version,
+    prestigeCount: snapshot.prestige.prestigeCount,
+    currentLevel: snapshot.level.currentLevel,
+    totalPlaytimeSeconds: snapshot.prestige.totalPlaytimeSeconds,
+  }
+}
+
+export class SaveSlotsStore {
+  constructor(private root: RootStore) {
+    makeAutoObservable(this)
+  }
+
+  state: "pending" | "ready" = "pending"
+
+  activeSlotId: string = DEFAULT_SLOT_ID
+
+  private entries: SaveSlotEntry[] = [
+    { id: DEFAULT_SLOT_ID, name: "Default", createdAt: 0, summary: null },
+  ]
+
+  get slots(): SaveSlot[] {
+    return this.entries.map(entry => ({
+      id: entry.id,
+      name: entry.name,
+      createdAt: entry.createdAt,
+      active: entry.id === this.activeSlotId,
+      metadata: entry.summary && {
+        ...entry.summary,
+        currentLevelName: this.localizedLevelName(entry.summary.currentLevel),
+      },
+    }))
+  }
+
+  private localizedLevelName(index: number): string | null {
+    const level = this.root.level.levels[index]
+    return level ? this.root.localization.localize("levels", level).name : null
+  }
+
+  get activeSlot(): SaveSlot {
+    return this.slots.find(slot => slot.active)!
+  }
+
+  getSlotKey(id: string): string {
+    return id === DEFAULT_SLOT_ID ? this.root.sync.saveKey : `${this.root.sync.saveKey}:slot:${id}`
+  }
+
+  // Rotating backups of a slot, index 0 is the newest
+  getBackupKey(id: string, index: number): string {
+    return `${this.getSlotKey(id)}:backup:${index}`
+  }
+
+  get activeSlotKey(): string {
+    return this.getSlotKey(this.activeSlotId)
+  }
+
+  private get indexKey(): string {
+    return `${this.root.sync.saveKey}:slots`
+  }
+
+  // Reads the slot index and the metadata of every slot from storage
+  * loadSlots() {
+    const { storage } = this.root
+    let index: SaveSlotsIndex = {
+      activeSlotId: DEFAULT_SLOT_ID,
+      slots: [{ id: DEFAULT_SLOT_ID, name: "Default", createdAt: 0 }],
+    }
+    try {
+      const raw: string | null = yield storage.get(this.indexKey)
+      if (raw) {
+        index = saveSlotsIndexSchema.parse(JSON.parse(raw))
+      }
+    }
+    catch (e) {
+      console.error("Failed to load save slots, falling back to the default slot:", e)
+    }
+
+    const entries: SaveSlotEntry[] = []
+    for (const slot of index.slots) {
+      const data: string | null = yield storage.get(this.getSlotKey(slot.id))
+      entries.push({ ...slot, summary: this.summarizeRaw(data) })
+    }
+    this.entries = entries
+    this.activeSlotId = entries.some(entry => entry.id === index.activeSlotId)
+      ? index.activeSlotId
+      : entries[0]!.id
+    this.state = "ready"
+  }
+
+  // Called by SyncStore after the active slot was written
+  updateActiveSlot(snapshot: GameSaveSnapshot): void {
+    const entry = this.findEntry(this.activeSlotId)
+    entry.summary = summarize(snapshot)
+  }
+
+  // Adds an empty slot without switching to it, returns its id
+  * createSlot(name?: string) {
+    const entry = this.addEntry(name ?? `Slot ${this.entries.length + 1}`)
+    yield this.saveIndex()
+    return entry.id
+  }
+
+  // Saves the current slot, then loads the target one (an empty slot starts a new game)
+  * switchSlot(id: string) {
+    this.findEntry(id)
+    if (id === this.activeSlotId) {
+      return
+    }
+
+    const { game, sync } = this.root
+    const wasRunning = game.running
+    if (wasRunning) {
+      game.stop()
+    }
+    yield this.flushActiveSlot()
+
+    this.activeSlotId = id
+    yield this.saveIndex()
+
+    sync.resetStores()
+    yield flowResult(sync.load())
+
+    if (wasRunning) {
+      game.start()
+    }
+  }
+
+  // Copies the last saved state of a slot into a new slot, returns the new slot id
+  * copySlot(sourceId: string, name?: string) {
+    const source = this.findEntry(sourceId)
+    if (sourceId === this.activeSlotId) {
+      yield this.flushActiveSlot()
+    }
+
+    const data: string | null = yield this.root.storage.get(this.getSlotKey(sourceId))
+    const entry = this.addEntry(name ?? `${source.name} (copy)`)
+    if (data) {
+      yield this.root.storage.set(this.getSlotKey(entry.id), data)
+      entry.summary = this.summarizeRaw(data)
+    }
+    yield this.saveIndex()
+    return entry.id
+  }
+
+  * deleteSlot(id: string) {
+    this.findEntry(id)
+    if (id === this.activeSlotId) {
+      throw new Error("Cannot delete the active save slot")
+    }
+    yield this.root.storage.remove(this.getSlotKey(id))
+    yield this.root.sync.removeBackups(id)
+    this.entries = this.entries.filter(entry => entry.id !== id)
+    yield this.saveIndex()
+  }
+
+  reset() {
+    const entry = this.findEntry(this.activeSlotId)
+    entry.summary = null
+  }
+
+  private summarizeRaw(data: string | null): SaveSlotEntry["summary"] {
+    if (!data) {
+      return null
+    }
+    try {
+      const { save } = this.root.sync.migrator.migrate(JSON.parse(data), this.root.config.gameVersion)
+      const result = gameSaveSchema.safeParse(save)
+      return result.success ? summarize(result.data) : null
+    }
+    catch {
+      return null
+    }
+  }
+
+  private findEntry(id: string): SaveSlotEntry {
+    const entry = this.entries.find(entry => entry.id === id)
+    if (!entry) {
+      throw new Error(`Save slot not found: ${id}`)
+    }
+    return entry
+  }
+
+  private addEntry(name: string): SaveSlotEntry {
+    let next = this.entries.length + 1
+    while (this.entries.some(entry => entry.id === `slot-${next}`)) {
+      next++
+    }
+    const entry: SaveSlotEntry = {
+      id: `slot-${next}`,
+      name,
+      createdAt: this.root.clock.now(),
+      summary: null,
+    }
+    this.entries.push(entry)
+    // Return the observable version so later updates are tracked
+    return this.entries[this.entries.length - 1]!
+  }
+
+  // Writes pending changes of the active slot, waiting for an autosave in flight
+  private async flushActiveSlot(): Promise<void> {
+    const { sync } = this.root
+    await when(() => !sync.busy)
+    await flowResult(sync.save(true))
+  }
+
+  private saveIndex(): Promise<void> {
+    const index: SaveSlotsIndex = {
+      activeSlotId: this.activeSlotId,
+      slots: this.entries.map(({ id, name, createdAt }) => ({ id, name, createdAt })),
+    }
+    return this.root.storage.set(this.indexKey, JSON.stringify(index))
+  }
+}
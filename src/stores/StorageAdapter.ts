@@ -0,0 +1,114 @@
+// Async key-value storage used by SyncStore for save data
+export interface StorageAdapter {
+  get: (key: string) => Promise<string | null>
+  set: (key: string, value: string) => Promise<void>
+  remove: (key: string) => Promise<void>
+}
+
+// Keeps saves in memory only, for tests, tools and environments without persistent storage
+export class MemoryStorageAdapter implements StorageAdapter {
+  private items = new Map<string, string>()
+
+  async get(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.items.set(key, value)
+  }
+
+  async remove(key: string): Promise<void> {
+    this.items.delete(key)
+  }
+}
+
+// Wraps the synchronous Web Storage API (localStorage by default)
+export class LocalStorageAdapter implements StorageAdapter {
+  private storage: Storage
+
+  constructor(storage?: Storage) {
+    const resolvedStorage = storage ?? globalThis.localStorage
+    if (!resolvedStorage) {
+      throw new Error("LocalStorageAdapter requires a Storage implementation.")
+    }
+    this.storage = resolvedStorage
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.storage.getItem(key)
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.storage.setItem(key, value)
+  }
+
+  async remove(key: string): Promise<void> {
+    this.storage.removeItem(key)
+  }
+}
+
+// Stores saves in an IndexedDB object store, available in browsers and Web Workers
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  constructor(
+    private databaseName: string = "mobx-clicker-game-engine",
+    private storeName: string = "saves",
+    private factory?: IDBFactory,
+  ) {}
+
+  private database: Promise<IDBDatabase> | undefined
+
+  async get(key: string): Promise<string | null> {
+    const value = await this.request("readonly", store => store.get(key))
+    return typeof value === "string" ? value : null
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.request("readwrite", store => store.put(value, key))
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.request("readwrite", store => store.delete(key))
+  }
+
+  private open(): Promise<IDBDatabase> {
+    const database = this.database ?? new Promise<IDBDatabase>((resolve, reject) => {
+      const factory = this.factory ?? globalThis.indexedDB
+      if (!factory) {
+        reject(new Error("IndexedDBStorageAdapter requires an IndexedDB implementation."))
+        return
+      }
+      const request = factory.open(this.databaseName, 1)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(this.storeName)
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    }).catch((e: unknown) => {
+      // Not cached, the next request opens again
+      this.database = undefined
+      throw e
+    })
+    this.database = database
+    return database
+  }
+
+  private async request<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const database = await this.open()
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(this.storeName, mode)
+      const request = action(transaction.objectStore(this.storeName))
+      // Settles with the transaction, a write can still abort after its request succeeded (e.g. QuotaExceededError)
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error ?? request.error)
+      transaction.onabort = () => reject(transaction.error ?? new Error("IndexedDB transaction was aborted"))
+    })
+  }
+}
+
+// localStorage when the environment has it, in-memory storage otherwise (Node, React Native)
+export function createDefaultStorage(): StorageAdapter {
+  if (typeof globalThis.localStorage !== "undefined") {
+    return new LocalStorageAdapter(globalThis.localStorage)
+  }
+  return new MemoryStorageAdapter()
+}
@@ -1,29 +1,67 @@
 import type { RootStore } from "./RootStore"
 
-import type { GameSaveSnapshot } from "./shared"
-import { makeAutoObservable } from "mobx"
+import type { SaveMigrationReport } from "./SaveMigrator"
+import type { SaveRecoveryReport } from "./SaveRecovery"
+import type { GameSaveSnapshot, SyncedStoreName } from "./shared"
+import { flowResult, makeAutoObservable } from "mobx"
+import { z } from "zod"
+import { decodeSaveString, encodeSaveString, SaveImportError } from "./SaveCodec"
+import { ENGINE_SAVE_VERSION, NewerSaveVersionError, SaveMigrationError, SaveMigrator } from "./SaveMigrator"
+import { salvageSave } from "./SaveRecovery"
 import { gameSaveSchema, STORES_TO_SYNC } from "./shared"
 
-const SAVE_KEY = "ocean_explorer_save"
+// Kept as the default so saves written before saveKey became configurable still load
+const DEFAULT_SAVE_KEY = "ocean_explorer_save"
 
-type StoreName = typeof STORES_TO_SYNC[number]
+interface ParsedSave {
+  snapshot: GameSaveSnapshot
+  report: SaveMigrationReport
+}
+
+function parseSave(data: string, migrator: SaveMigrator, gameVersion: string): ParsedSave {
+  const { save, report } = migrator.migrate(JSON.parse(data), gameVersion)
+  return { snapshot: gameSaveSchema.parse(save), report }
+}
 
 export class SyncStore {
   constructor(private root: RootStore) {
+    this.saveKey = root.options.saveKey ?? DEFAULT_SAVE_KEY
+    this.migrator = new SaveMigrator(root.options.migrations)
     makeAutoObservable(this)
   }
 
+  // Storage key for this game, also the prefix for any related entries
+  readonly saveKey: string
+
+  readonly migrator: SaveMigrator
+
+  // "error" means the active slot holds a save this version cannot load, so it is never overwritten
   state: "idle" | "saving" | "loading" | "error" = "idle"
 
+  // Why the last load was refused
+  error: Error | null = null
+
+  // Migrations applied by the last successful load
+  migrationReport: SaveMigrationReport | null = null
+
+  // Set when the last load had to recover from a broken save
+  recoveryReport: SaveRecoveryReport | null = null
+
+  get busy(): boolean {
+    return this.state === "saving" || this.state === "loading"
+  }
+
   lastSave: number = 0
 
-  dirty: Set<StoreName> = new Set()
+  lastBackup: number = 0
+
+  dirty: Set<SyncedStoreName> = new Set()
 
   get isDirty(): boolean {
     return this.dirty.size > 0
   }
 
-  markDirty = (store: StoreName) => {
+  markDirty = (store: SyncedStoreName) => {
     this.dirty.add(store)
   }
 
@@ -34,7 +72,9 @@ export class SyncStore {
   getSnapshot(timestamp: number): GameSaveSnapshot {
     return {
       version: this.root.config.gameVersion,
+      engineVersion: ENGINE_SAVE_VERSION,
       timestamp,
+      config: this.root.config.getSnapshot(),
       resources: this.root.resources.getSnapshot(),
       workers: this.root.workers.getSnapshot(),
       operations: this.root.operations.getSnapshot(),
@@ -43,6 +83,7 @@ export class SyncStore {
       upgrades: this.root.upgrades.getSnapshot(),
       achievements: this.root.achievements.getSnapshot(),
       prestige: this.root.prestige.getSnapshot(),
+      managers: this.root.managers.getSnapshot(),
     }
   }
 
@@ -55,27 +96,38 @@ export class SyncStore {
     }
   }
 
-  * save() {
-    if (!this.isDirty) {
+  // Writes to the active save slot, at most once per localSaveInterval unless forced
+  * save(force: boolean = false) {
+    if (!this.isDirty || this.state === "error") {
       return
     }
     if (this.state !== "idle") {
       throw new Error("Cannot save while state is not idle")
     }
-    const now = Date.now()
-    const shouldBeSaved = now - this.lastSave > this.root.config.localSaveInterval
+    const now = this.root.clock.now()
+    const shouldBeSaved = force || now - this.lastSave > this.root.config.localSaveInterval
     if (!shouldBeSaved) {
       return
     }
     this.state = "saving"
+    // Clear before writing, so changes made while the write is in flight stay dirty
+    const pending = new Set(this.dirty)
+    this.clearDirty()
     try {
       const snapshot = this.getSnapshot(now)
-      yield new Promise((resolve) => {
-        localStorage.setItem(SAVE_KEY, JSON.stringify(snapshot))
-        resolve(true)
-      })
-      this.clearDirty()
+      const data = JSON.stringify(snapshot)
+      yield this.root.storage.set(this.root.slots.activeSlotKey, data)
+      this.root.slots.updateActiveSlot(snapshot)
       this.lastSave = now
+      if (now - this.lastBackup >= this.root.config.saveBackupInterval) {
+        yield flowResult(this.writeBackup(data, now))
+      }
+    }
+    catch (e) {
+      for (const store of pending) {
+        this.markDirty(store)
+      }
+      throw e
     }
     finally {
       this.state = "idle"
@@ -83,36 +135,216 @@ export class SyncStore {
   }
 
   * load() {
-    if (this.state !== "idle") {
-      throw new Error("Cannot load while state is not idle")
+    if (this.busy) {
+      throw new Error("Cannot load while a save or load is in progress")
     }
     this.state = "loading"
+    this.error = null
+    this.recoveryReport = null
+    let locked = false
     try {
-      const data: string | null = yield new Promise((resolve) => {
-        resolve(localStorage.getItem(SAVE_KEY))
-      })
+      if (this.root.slots.state === "pending") {
+        yield flowResult(this.root.slots.loadSlots())
+      }
+      const data: string | null = yield this.root.storage.get(this.root.slots.activeSlotKey)
       if (data) {
-        const snapshot = gameSaveSchema.parse(JSON.parse(data))
-        this.loadSnapshot(snapshot)
-        return snapshot.timestamp
+        let parsed: ParsedSave | null
+        try {
+          parsed = parseSave(data, this.migrator, this.root.config.gameVersion)
+        }
+        catch (e) {
+          // Version problems are not corruption, the save stays locked instead
+          if (e instanceof NewerSaveVersionError || e instanceof SaveMigrationError) {
+            throw e
+          }
+          parsed = yield flowResult(this.recover(data, e))
+        }
+        if (parsed) {
+          this.loadSnapshot(parsed.snapshot)
+          this.migrationReport = parsed.report
+          if (this.recoveryReport) {
+            // Write the recovered state back with the next autosave
+            for (const store of STORES_TO_SYNC) {
+              this.markDirty(store)
+            }
+          }
+          this.root.offline.applyOfflineProgress(parsed.snapshot.timestamp)
+          return parsed.snapshot.timestamp
+        }
       }
     }
     catch (e) {
+      if (e instanceof NewerSaveVersionError || e instanceof SaveMigrationError) {
+        locked = true
+        this.error = e
+        throw e
+      }
       console.error("Failed to load save data:", e)
     }
     finally {
-      this.state = "idle"
+      this.state = locked ? "error" : "idle"
     }
     return undefined
   }
 
-  reset() {
-    if (this.state !== "idle") {
-      throw new Error("Cannot reset while state is not idle")
+  // Falls back to the newest valid backup, then to the valid parts of the broken save, otherwise a new game
+  private* recover(data: string, cause: unknown) {
+    const { config, slots, storage } = this.root
+    console.error("Failed to load save data, trying to recover:", cause)
+    const reason = cause instanceof z.ZodError
+      ? z.prettifyError(cause)
+      : cause instanceof Error ? cause.message : String(cause)
+
+    // Keep the broken save around, the next autosave overwrites it
+    yield storage.set(`${slots.activeSlotKey}:corrupted`, data)
+
+    let newest: ParsedSave | null = null
+    for (let index = 0; index < config.maxSaveBackups; index++) {
+      const backup: string | null = yield storage.get(slots.getBackupKey(slots.activeSlotId, index))
+      if (!backup) {
+        continue
+      }
+      try {
+        const parsed = parseSave(backup, this.migrator, config.gameVersion)
+        if (!newest || parsed.snapshot.timestamp > newest.snapshot.timestamp) {
+          newest = parsed
+        }
+      }
+      catch (e) {
+        console.error(`Skipping invalid save backup ${index}:`, e)
+      }
+    }
+    if (newest) {
+      this.recoveryReport = {
+        reason,
+        source: "backup",
+        timestamp: newest.snapshot.timestamp,
+        recoveredStores: [...STORES_TO_SYNC],
+        discardedStores: [],
+      }
+      return newest
+    }
+
+    if (config.partialSaveRecovery) {
+      try {
+        const { save, report } = this.migrator.migrate(JSON.parse(data), config.gameVersion)
+        this.resetStores()
+        // Round-trip through JSON like a stored save, store snapshots hold observable objects
+        const defaults: GameSaveSnapshot = JSON.parse(JSON.stringify(this.getSnapshot(this.root.clock.now())))
+        const { snapshot, timestamp, recoveredStores, discardedStores } = salvageSave(save, defaults)
+        if (recoveredStores.length > 0) {
+          this.recoveryReport = { reason, source: "partial", timestamp, recoveredStores, discardedStores }
+          return { snapshot, report }
+        }
+      }
+      catch (e) {
+        console.error("Partial save recovery failed:", e)
+      }
     }
+
+    this.recoveryReport = {
+      reason,
+      source: "none",
+      timestamp: null,
+      recoveredStores: [],
+      discardedStores: [...STORES_TO_SYNC],
+    }
+    return null
+  }
+
+  dismissRecoveryReport() {
+    this.recoveryReport = null
+  }
+
+  // Shifts older backups of the active slot down and stores the save as the newest one
+  private* writeBackup(data: string, timestamp: number) {
+    const { config, slots, storage } = this.root
+    // Only saves that load again are worth keeping, e.g. a NaN resource is written as null
+    if (config.maxSaveBackups < 1 || !gameSaveSchema.safeParse(JSON.parse(data)).success) {
+      return
+    }
+    const id = slots.activeSlotId
+    try {
+      for (let index = config.maxSaveBackups - 1; index > 0; index--) {
+        const older: string | null = yield storage.get(slots.getBackupKey(id, index - 1))
+        if (older) {
+          yield storage.set(slots.getBackupKey(id, index), older)
+        }
+      }
+      yield storage.set(slots.getBackupKey(id, 0), data)
+      this.lastBackup = timestamp
+    }
+    catch (e) {
+      // The save itself was written, a failed backup is retried on the next save
+      console.error("Failed to write save backup:", e)
+    }
+  }
+
+  // Removes the backups and the kept broken save of a slot
+  async removeBackups(id: string): Promise<void> {
+    const { config, slots, storage } = this.root
+    for (let index = 0; index < config.maxSaveBackups; index++) {
+      await storage.remove(slots.getBackupKey(id, index))
+    }
+    await storage.remove(`${slots.getSlotKey(id)}:corrupted`)
+  }
+
+  // Portable save string of the current state for backups, device transfer and bug reports
+  exportSave(): string {
+    return encodeSaveString(this.getSnapshot(this.root.clock.now()))
+  }
+
+  // Replaces the current game with an exported save string and writes it to the active slot
+  * importSave(text: string) {
+    if (this.busy) {
+      throw new Error("Cannot import while a save or load is in progress")
+    }
+    const raw = decodeSaveString(text)
+    const { save, report } = this.migrator.migrate(raw, this.root.config.gameVersion)
+    const result = gameSaveSchema.safeParse(save)
+    if (!result.success) {
+      throw new SaveImportError("invalid", "Save string contains invalid save data", result.error.issues)
+    }
+
+    this.state = "idle"
+    this.error = null
+    this.recoveryReport = null
+    this.resetStores()
+    this.loadSnapshot(result.data)
+    this.migrationReport = report
+    // No offline progress: the export time says nothing about how long the player was away, and
+    // crediting it would pay again on every import of the same string
+    this.root.offline.dismissReport()
+
+    // Persist right away, otherwise a reload before the next autosave would bring the old game back
+    for (const store of STORES_TO_SYNC) {
+      this.markDirty(store)
+    }
+    yield flowResult(this.save(true))
+    return result.data.timestamp
+  }
+
+  // Resets the stores to a new game without touching storage
+  resetStores() {
     for (const store of STORES_TO_SYNC) {
       this.root[store].reset()
     }
-    localStorage.removeItem(SAVE_KEY)
+    this.clearDirty()
+    this.lastSave = 0
+    this.lastBackup = 0
+  }
+
+  // Starts a new game and removes the active slot's save
+  * reset() {
+    if (this.busy) {
+      throw new Error("Cannot reset while a save or load is in progress")
+    }
+    this.state = "idle"
+    this.error = null
+    this.recoveryReport = null
+    this.resetStores()
+    this.root.slots.reset()
+    yield this.root.storage.remove(this.root.slots.activeSlotKey)
+    yield this.removeBackups(this.root.slots.activeSlotId)
   }
 }
@@ -0,0 +1,173 @@
+import type { ContentLoadError } from "./ContentProvider"
+import type { RootStore } from "./RootStore"
+
+import type { Rarity, Resource } from "./shared"
+import { makeAutoObservable } from "mobx"
+import { z } from "zod"
+import { toContentLoadError } from "./ContentProvider"
+import { raritySchema, resourceSchema } from "./shared"
+
+// Store concepts a theme can rename, e.g. workers as "Crew" or prestige points as "Survey Commendations"
+export const THEME_TERMS = [
+  "worker",
+  "operation",
+  "upgrade",
+  "achievement",
+  "article",
+  "level",
+  "prestige",
+  "prestigePoint",
+  "manager",
+] as const
+
+export type ThemeTerm = typeof THEME_TERMS[number]
+
+// Text the engine generates itself. `{name}` is replaced with the name of what the message is about,
+// `{term}` with the themed name of its concept.
+export const THEME_MESSAGES = [
+  "achievementUnlocked", // Achievement toast title
+  "articleUnlocked", // Article toast title
+  "levelUnlocked", // Level up confirmation title
+  "levelUpConfirm", // Level up confirmation button, config.levelUpConfirmText unless the theme sets it
+] as const
+
+export type ThemeMessage = typeof THEME_MESSAGES[number]
+
+// Every field is optional, whatever a theme leaves out keeps the default
+const themeLabelSchema = z.object({
+  name: z.string().optional(),
+  icon: z.string().optional(),
+})
+
+const themeTermSchema = themeLabelSchema.extend({
+  plural: z.string().optional(),
+})
+
+export const themeManifestSchema = z.object({
+  name: z.string().optional(),
+  resources: z.record(resourceSchema, themeLabelSchema).optional(),
+  rarities: z.partialRecord(raritySchema, themeLabelSchema).optional(),
+  terms: z.partialRecord(z.enum(THEME_TERMS), themeTermSchema).optional(),
+  messages: z.partialRecord(z.enum(THEME_MESSAGES), z.string()).optional(),
+})
+
+export type ThemeManifest = z.infer<typeof themeManifestSchema>
+
+// A label with the defaults filled in
+export interface ThemeLabel {
+  name: string
+  icon?: string
+}
+
+export interface ThemeTermLabel extends ThemeLabel {
+  plural: string
+}
+
+const DEFAULT_TERMS: Record<ThemeTerm, ThemeLabel & { plural?: string }> = {
+  worker: { name: "Worker" },
+  operation: { name: "Operation" },
+  upgrade: { name: "Upgrade" },
+  achievement: { name: "Achievement" },
+  article: { name: "Article", icon: "📖" },
+  level: { name: "Level" },
+  prestige: { name: "Prestige", plural: "Prestiges" },
+  prestigePoint: { name: "Prestige Point" },
+  manager: { name: "Manager" },
+}
+
+const DEFAULT_MESSAGES: Record<Exclude<ThemeMessage, "levelUpConfirm">, string> = {
+  achievementUnlocked: "{term} Unlocked!",
+  articleUnlocked: "New Discovery!",
+  levelUnlocked: "{name} Unlocked!",
+}
+
+// Concept whose themed name fills `{term}`
+const MESSAGE_TERMS: Record<ThemeMessage, ThemeTerm> = {
+  achievementUnlocked: "achievement",
+  articleUnlocked: "article",
+  levelUnlocked: "level",
+  levelUpConfirm: "level",
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+// Themed fields over the defaults
+function resolveLabel(defaults: ThemeLabel, themed: { name?: string | undefined, icon?: string | undefined } = {}): ThemeLabel {
+  const name = themed.name ?? defaults.name
+  const icon = themed.icon ?? defaults.icon
+  return icon === undefined ? { name } : { name, icon }
+}
+
+export function formatThemeText(template: string, params: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => params[key] ?? match)
+}
+
+export class ThemeStore {
+  constructor(private root: RootStore) {
+    makeAutoObservable(this)
+  }
+
+  state: "pending" | "ready" | "error" = "pending"
+
+  loadError: ContentLoadError | null = null
+
+  // The theme file is optional, without one every label and message keeps its default.
+  // Names and messages below go through the string table of the current locale.
+  manifest: ThemeManifest = {}
+
+  // Falls back to the name of a declared resource, then to the capitalized id
+  getResourceLabel(resource: Resource): ThemeLabel {
+    const { localization, resources } = this.root
+    const themed = this.manifest.resources?.[resource]
+    const definition = resources.mappedDefinitions.get(resource)
+    if (definition && themed?.name === undefined) {
+      return resolveLabel({ name: localization.localize("resources", definition).name }, themed)
+    }
+    const label = resolveLabel({ name: capitalize(resource) }, themed)
+    return { ...label, name: localization.text(`theme.resources.${resource}.name`, label.name) }
+  }
+
+  getRarityLabel(rarity: Rarity): ThemeLabel {
+    const label = resolveLabel({ name: capitalize(rarity) }, this.manifest.rarities?.[rarity])
+    return { ...label, name: this.root.localization.text(`theme.rarities.${rarity}.name`, label.name) }
+  }
+
+  // A themed name without a plural gets an "s" added
+  getTerm(term: ThemeTerm): ThemeTermLabel {
+    const { localization } = this.root
+    const { plural, ...defaults } = DEFAULT_TERMS[term]
+    const themed = this.manifest.terms?.[term]
+    const label = resolveLabel(defaults, themed)
+    return {
+      ...label,
+      name: localization.text(`theme.terms.${term}.name`, label.name),
+      plural: localization.text(`theme.terms.${term}.plural`, themed?.plural ?? (themed?.name === undefined ? plural : undefined) ?? `${label.name}s`),
+    }
+  }
+
+  // The themed template with its placeholders filled, `term` is the name of the message's concept
+  formatMessage(message: ThemeMessage, params: { name?: string } = {}): string {
+    const template = this.manifest.messages?.[message]
+      ?? (message === "levelUpConfirm" ? this.root.config.levelUpConfirmText : DEFAULT_MESSAGES[message])
+    const text = this.root.localization.text(`theme.messages.${message}`, template)
+    return formatThemeText(text, { term: this.getTerm(MESSAGE_TERMS[message]).name, ...params })
+  }
+
+  * loadTheme() {
+    try {
+      const response: unknown = yield this.root.dataSource.fetchTheme()
+      this.manifest = themeManifestSchema.parse(response)
+      this.state = "ready"
+      this.loadError = null
+    }
+    catch (e) {
+      console.error("Failed to load theme:", e)
+      this.loadError = toContentLoadError("theme", e)
+      if (this.state !== "ready") {
+        this.state = "error"
+      }
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import type { Achievement } from "./AchievementsStore"
 
+import type { TimerId } from "./Clock"
 import type { Article } from "./CodexStore"
 import type { RootStore } from "./RootStore"
 import { makeAutoObservable } from "mobx"
@@ -21,7 +22,7 @@ export class ToastStore {
 
   toasts = new Map<number, ToastMessage>()
   private head = 0 // Track the last used ID for efficient ID generation
-  private timeouts = new Map<number, ReturnType<typeof setTimeout>>()
+  private timeouts = new Map<number, TimerId>()
 
   showToast(options: Omit<ToastMessage, "id">) {
     const id = ++this.head
@@ -32,9 +33,9 @@ export class ToastStore {
     }
 
     this.toasts.set(id, toast)
-    this.timeouts.set(id, setTimeout(() => {
+    this.timeouts.set(id, this.root.clock.setTimeout(() => {
       this.dismissToast(id)
-    }, toast.duration))
+    }, toast.duration ?? this.root.config.toastTimeout))
   }
 
   dismissToast(id: number): void {
@@ -45,17 +46,26 @@ export class ToastStore {
     // Clear timeout if exists
     const timeout = this.timeouts.get(id)
     if (timeout) {
-      clearTimeout(timeout)
+      this.root.clock.clearTimeout(timeout)
       this.timeouts.delete(id)
     }
   }
 
+  // Clears every auto-dismiss timer, the toasts stay
+  dispose(): void {
+    for (const timeout of this.timeouts.values()) {
+      this.root.clock.clearTimeout(timeout)
+    }
+    this.timeouts.clear()
+  }
+
   // Convenience methods for common toast types
   showAchievementToast(achievement: Achievement): void {
+    const { name } = this.root.localization.localize("achievements", achievement)
     this.showToast({
       type: "achievement",
-      title: "Achievement Unlocked!",
-      message: achievement.name,
+      title: this.root.theme.formatMessage("achievementUnlocked", { name }),
+      message: name,
       icon: achievement.icon,
       duration: 5000, // Achievements show longer
       data: { achievementId: achievement.id },
@@ -63,11 +73,13 @@ export class ToastStore {
   }
 
   showArticleToast(article: Article): void {
+    const { title } = this.root.localization.localize("articles", article)
+    const { icon } = this.root.theme.getTerm("article")
     this.showToast({
       type: "article",
-      title: "New Discovery!",
-      message: article.title,
-      icon: "📖",
+      title: this.root.theme.formatMessage("articleUnlocked", { name: title }),
+      message: title,
+      ...(icon === undefined ? {} : { icon }),
       duration: 4000,
       data: { articleId: article.id },
     })
@@ -1,11 +1,18 @@
+import type { BulkAmount, PurchasePreview } from "./BulkPurchase"
+import type { ContentLoadError } from "./ContentProvider"
+import type { MultiplierContribution } from "./Multipliers"
 import type { RootStore } from "./RootStore"
-import type { MultipliersMap, Resource, UpgradesSnapshot } from "./shared"
+import type { MultipliersMap, Resource, ResourceAmounts, UpgradesSnapshot } from "./shared"
 
 import { makeAutoObservable } from "mobx"
 import { z } from "zod"
+import { BigNumber } from "./BigNumber"
+import { geometricCost, planPurchase } from "./BulkPurchase"
+import { toContentLoadError } from "./ContentProvider"
+import { combineContributions, createContribution } from "./Multipliers"
 import {
-  createMultipliersMap,
 
+  modifierStackingShape,
   nonNegativeIntegerSchema,
   nonNegativeNumberSchema,
   resourceSchema,
@@ -14,14 +21,16 @@ import {
 } from "./shared"
 
 const upgradeEffectSchema = z.discriminatedUnion("type", [
-  z.object({ type: z.literal("energyGain"), value: nonNegativeNumberSchema }),
-  z.object({ type: z.literal("outputGain"), value: nonNegativeNumberSchema }),
-  z.object({ type: z.literal("operationCostReduction"), value: nonNegativeNumberSchema }),
-  z.object({ type: z.literal("reputationGain"), value: nonNegativeNumberSchema }),
-  z.object({ type: z.literal("moneyGain"), value: nonNegativeNumberSchema }),
-  z.object({ type: z.literal("workersEfficiency"), value: nonNegativeNumberSchema }),
-  z.object({ type: z.literal("operationDurationReduction"), value: nonNegativeNumberSchema }),
-  z.object({ type: z.literal("offlineEfficiency"), value: nonNegativeNumberSchema }),
+  z.object({ type: z.literal("energyGain"), value: nonNegativeNumberSchema, ...modifierStackingShape }),
+  z.object({ type: z.literal("outputGain"), value: nonNegativeNumberSchema, ...modifierStackingShape }),
+  z.object({ type: z.literal("operationCostReduction"), value: nonNegativeNumberSchema, ...modifierStackingShape }),
+  z.object({ type: z.literal("reputationGain"), value: nonNegativeNumberSchema, ...modifierStackingShape }),
+  z.object({ type: z.literal("moneyGain"), value: nonNegativeNumberSchema, ...modifierStackingShape }),
+  z.object({ type: z.literal("workersEfficiency"), value: nonNegativeNumberSchema, ...modifierStackingShape }),
+  z.object({ type: z.literal("operationDurationReduction"), value: nonNegativeNumberSchema, ...modifierStackingShape }),
+  z.object({ type: z.literal("offlineEfficiency"), value: nonNegativeNumberSchema, ...modifierStackingShape }),
+  // Puts a manager to work, see ManagersStore
+  z.object({ type: z.literal("unlockManager"), managerId: z.string() }),
 ])
 
 const upgradeSchema = z.object({
@@ -51,11 +60,12 @@ export type Upgrades = z.infer<typeof upgradesSchema>
 export class UpgradesStore {
   constructor(private root: RootStore) {
     makeAutoObservable(this)
-    this.loadUpgrades()
   }
 
   state: "pending" | "ready" | "error" = "pending"
 
+  loadError: ContentLoadError | null = null
+
   upgrades: Upgrade[] = []
 
   get mappedUpgrades(): Map<Upgrade["id"], Upgrade> {
@@ -71,10 +81,14 @@ export class UpgradesStore {
       const response: unknown = yield dataSource.fetchUpgrades()
       this.upgrades = upgradesSchema.parse(response)
       this.state = "ready"
+      this.loadError = null
     }
     catch (e) {
       console.error("Failed to load upgrades:", e)
-      this.state = "error"
+      this.loadError = toContentLoadError("upgrades", e)
+      if (this.state !== "ready") {
+        this.state = "error"
+      }
     }
   }
 
@@ -118,9 +132,9 @@ export class UpgradesStore {
     if (!this.meetsUnlockCondition(upgrade)) {
       return false
     }
-    const levelCostMultiplier = upgrade.costMultiplier ** currentLevel
+    const levelCostMultiplier = BigNumber.from(upgrade.costMultiplier).pow(currentLevel)
     for (const [resource, baseCost] of Object.entries(upgrade.cost) as [Resource, number][]) {
-      if (this.root.resources[resource] < baseCost * levelCostMultiplier) {
+      if (this.root.resources.getAmount(resource).lt(levelCostMultiplier.mul(baseCost))) {
         return false
       }
     }
@@ -134,21 +148,68 @@ export class UpgradesStore {
     })
   }
 
+  // Levels of this upgrade that unlock other upgrades, and its max level
+  private getMilestones(upgrade: Upgrade): number[] {
+    const milestones = [...this.root.config.purchaseMilestones, upgrade.maxLevel]
+    for (const other of this.upgrades) {
+      const condition = other.unlockCondition
+      if (condition?.type === "upgrade" && condition.upgradeId === upgrade.id) {
+        milestones.push(condition.level)
+      }
+    }
+    return milestones
+  }
+
+  // Cost of buying `level` + 1 when at `level`, each resource rounded up as spendResourcesByCost does
+  getLevelCost(upgrade: Upgrade, level: number = this.unlockedUpgrades[upgrade.id] ?? 0): Partial<ResourceAmounts> {
+    return this.getLevelsCost(upgrade, level, 1)
+  }
+
+  // Cost of buying `count` levels from `level` on, each resource summed in closed form and rounded up
+  private getLevelsCost(upgrade: Upgrade, level: number, count: number): Partial<ResourceAmounts> {
+    const cost: Partial<ResourceAmounts> = {}
+    for (const [resource, baseCost] of Object.entries(upgrade.cost) as [Resource, number][]) {
+      cost[resource] = geometricCost(baseCost, upgrade.costMultiplier, level, count).ceil()
+    }
+    return cost
+  }
+
+  // What buying `amount` levels of an upgrade would buy and cost, reactive when read in an observer
+  previewPurchase(upgrade: Upgrade, amount: BulkAmount = 1): PurchasePreview {
+    const currentLevel = this.unlockedUpgrades[upgrade.id] ?? 0
+    return planPurchase({
+      amount,
+      owned: currentLevel,
+      available: this.meetsUnlockCondition(upgrade) ? upgrade.maxLevel - currentLevel : 0,
+      milestones: this.getMilestones(upgrade),
+      totalCost: (level, count) => this.getLevelsCost(upgrade, level, count),
+      resources: this.root.resources.amounts,
+    })
+  }
+
   purchaseUpgrade(upgrade: Upgrade) {
-    if (!this.canPurchaseUpgrade(upgrade)) {
+    this.purchaseUpgrades(upgrade, 1)
+  }
+
+  // Buys all levels or none, returns how many were bought
+  purchaseUpgrades(upgrade: Upgrade, amount: BulkAmount): number {
+    const currentLevel = this.unlockedUpgrades[upgrade.id] ?? 0
+    if (currentLevel >= upgrade.maxLevel || !this.meetsUnlockCondition(upgrade)) {
       throw new Error(`Cannot purchase upgrade ${upgrade.id}: requirements not met or max level reached`)
     }
-    const currentLevel = this.unlockedUpgrades[upgrade.id] ?? 0
-    const levelCostMultiplier = upgrade.costMultiplier ** currentLevel
-    if (!this.root.resources.spendResourcesByCost(upgrade.cost, levelCostMultiplier)) {
+    const { count, cost } = this.previewPurchase(upgrade, amount)
+    if (count === 0 || !this.root.resources.spendResourcesByCost(cost, 1)) {
       throw new Error(`Insufficient resources for upgrade: ${upgrade.name}`)
     }
-    this.unlockedUpgrades[upgrade.id] = (this.unlockedUpgrades[upgrade.id] ?? 0) + 1
+    const level = currentLevel + count
+    this.unlockedUpgrades[upgrade.id] = level
     this.root.sync.markDirty("upgrades")
+    this.root.events.emit("upgradePurchased", { upgradeId: upgrade.id, level, count })
+    return count
   }
 
-  get multipliers(): MultipliersMap {
-    const map = createMultipliersMap(1.0)
+  get multiplierContributions(): MultiplierContribution[] {
+    const contributions: MultiplierContribution[] = []
     for (const id of Object.keys(this.unlockedUpgrades)) {
       const upgrade = this.mappedUpgrades.get(id)
       if (!upgrade) {
@@ -156,11 +217,17 @@ export class UpgradesStore {
       }
       const levels = this.unlockedUpgrades[id]!
       for (const effect of upgrade.effect) {
-        const current = map.get(effect.type)!
-        map.set(effect.type, current * effect.value ** levels)
+        if (effect.type === "unlockManager") {
+          continue
+        }
+        contributions.push(createContribution("upgrades", effect.type, id, effect, levels))
       }
     }
-    return map
+    return contributions
+  }
+
+  get multipliers(): MultipliersMap {
+    return combineContributions(this.multiplierContributions)
   }
 
   getSnapshot(): UpgradesSnapshot {
@@ -1,8 +1,13 @@
+import type { BulkAmount, PurchasePreview } from "./BulkPurchase"
+import type { ContentLoadError } from "./ContentProvider"
 import type { RootStore } from "./RootStore"
-import type { GameSaveSnapshot, WorkersSnapshot } from "./shared"
+import type { GameSaveSnapshot, Resource, WorkersSnapshot } from "./shared"
 
 import { makeAutoObservable } from "mobx"
 import { z } from "zod"
+import { BigNumber } from "./BigNumber"
+import { geometricCost, planPurchase } from "./BulkPurchase"
+import { toContentLoadError } from "./ContentProvider"
 import { nonNegativeIntegerSchema, nonNegativeNumberSchema, workersSnapshotSchema } from "./shared"
 
 const unlockConditionSchema = z.discriminatedUnion("type", [
@@ -17,10 +22,11 @@ export const workerSchema = z.object({
   name: z.string(),
   description: z.string(),
   cost: nonNegativeIntegerSchema,
+  // Declared resources produced by workers are listed next to energy and output
   production: z.object({
     energy: nonNegativeIntegerSchema,
     output: nonNegativeIntegerSchema.optional(),
-  }),
+  }).catchall(nonNegativeIntegerSchema),
   costMultiplier: nonNegativeNumberSchema,
   unlockConditions: z.array(unlockConditionSchema).readonly(),
 })
@@ -34,11 +40,12 @@ export type Workers = z.infer<typeof workersSchema>
 export class WorkersStore {
   constructor(private root: RootStore) {
     makeAutoObservable(this)
-    this.loadWorkers()
   }
 
   workers: Worker[] = []
 
+  loadError: ContentLoadError | null = null
+
   state: "pending" | "ready" | "error" = "pending";
 
   * loadWorkers() {
@@ -50,10 +57,14 @@ export class WorkersStore {
       const response: unknown = yield dataSource.fetchWorkers()
       this.workers = workersSchema.parse(response)
       this.state = "ready"
+      this.loadError = null
     }
     catch (e) {
       console.error("Failed to load workers:", e)
-      this.state = "error"
+      this.loadError = toContentLoadError("workers", e)
+      if (this.state !== "ready") {
+        this.state = "error"
+      }
     }
   }
 
@@ -81,6 +92,16 @@ export class WorkersStore {
     return total
   }
 
+  // Summed production of a declared resource, see ResourceDefinition.production
+  getProduction(resource: Resource): number {
+    let total = 0
+    for (const worker of this.workers) {
+      const count = this.hiredWorkers[worker.id] || 0
+      total += (worker.production[resource] ?? 0) * count
+    }
+    return total
+  }
+
   get unlockedWorkers(): Worker[] {
     return this.workers.filter((worker) => {
       let meetsAllConditions = true
@@ -110,25 +131,80 @@ export class WorkersStore {
     })
   }
 
+  // workerId → cost of the next hire through root.format, for display
+  get formattedCosts(): Map<string, string> {
+    return new Map(this.workers.map(worker => [worker.id, this.root.format.number(this.getWorkerCost(worker))]))
+  }
+
   calculateWorkerCost(worker: Worker, currentCount: number = this.hiredWorkers[worker.id] ?? 0): number {
-    const baseCost = Math.ceil(worker.cost * worker.costMultiplier ** currentCount)
+    return this.getWorkerCost(worker, currentCount).toNumber()
+  }
+
+  // Exact cost, which may exceed Number.MAX_VALUE in "big" number mode
+  getWorkerCost(worker: Worker, currentCount: number = this.hiredWorkers[worker.id] ?? 0): BigNumber {
+    return this.getHireCost(worker, currentCount, 1)
+  }
+
+  // Cost of hiring `count` when `currentCount` are hired, the reduction applies to the whole sum
+  private getHireCost(worker: Worker, currentCount: number, count: number): BigNumber {
+    const baseCost = geometricCost(worker.cost, worker.costMultiplier, currentCount, count).ceil()
     const reduction = this.root.resources.getMultipliers("workerCostReduction")
     // reduction of 1.2 means 20% cheaper: (2 - 1.2) = 0.8 = 80% of base cost
     const costMultiplier = Math.max(0.1, 2 - reduction)
-    return Math.ceil(baseCost * costMultiplier)
+    return baseCost.mul(costMultiplier).ceil()
+  }
+
+  // Counts of this worker that unlock other workers or upgrades
+  private getMilestones(worker: Worker): number[] {
+    const milestones = [...this.root.config.purchaseMilestones]
+    for (const other of this.workers) {
+      for (const condition of other.unlockConditions) {
+        if (condition.type === "hiredWorkers" && condition.workerId === worker.id) {
+          milestones.push(condition.count)
+        }
+      }
+    }
+    for (const upgrade of this.root.upgrades.upgrades) {
+      const condition = upgrade.unlockCondition
+      if (condition?.type === "worker" && condition.workerId === worker.id) {
+        milestones.push(condition.count)
+      }
+    }
+    return milestones
+  }
+
+  // What hiring `amount` of a worker would buy and cost, reactive when read in an observer
+  previewHire(worker: Worker, amount: BulkAmount = 1): PurchasePreview {
+    const owned = this.hiredWorkers[worker.id] ?? 0
+    return planPurchase({
+      amount,
+      owned,
+      // Worker counts are saved as safe integers
+      available: Number.MAX_SAFE_INTEGER - owned,
+      milestones: this.getMilestones(worker),
+      totalCost: (owned, count) => ({ money: this.getHireCost(worker, owned, count) }),
+      resources: this.root.resources.amounts,
+    })
   }
 
   hireWorker(worker: Worker) {
-    const currentCount = this.hiredWorkers[worker.id] || 0
-    const cost = this.calculateWorkerCost(worker, currentCount)
+    this.hireWorkers(worker, 1)
+  }
+
+  // Hires all or nothing, returns how many were hired
+  hireWorkers(worker: Worker, amount: BulkAmount): number {
+    const { count, cost } = this.previewHire(worker, amount)
+    const money = cost.money ?? BigNumber.ZERO
 
-    if (!this.root.resources.spendResource("money", cost)) {
+    if (count === 0 || !this.root.resources.spendResource("money", money)) {
       throw new Error("Not enough money to hire this worker")
     }
 
-    this.hiredWorkers[worker.id] = currentCount + 1
+    this.hiredWorkers[worker.id] = (this.hiredWorkers[worker.id] ?? 0) + count
     this.root.sync.markDirty("workers")
-    this.root.achievements.addWorkers(1)
+    this.root.achievements.addWorkers(count)
+    this.root.events.emit("workerHired", { workerId: worker.id, count, cost: money.toNumber() })
+    return count
   }
 
   addWorkers(workerId: string, count: number): void {
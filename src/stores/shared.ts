@@ -1,4 +1,6 @@
+import type { NumberMode } from "./BigNumber"
 import { z } from "zod"
+import { BigNumber, bigNumberSchema, fitResourceAmount, toAmountSnapshot } from "./BigNumber"
 
 export const nonNegativeIntegerSchema = z.int().nonnegative()
 export const nonNegativeNumberSchema = z.number().nonnegative()
@@ -10,21 +12,69 @@ export const raritySchema = z.enum(RARITY)
 
 export type Rarity = z.infer<typeof raritySchema>
 
+// Core resources every game has, content can declare more in its resources file
 export const RESOURCES = ["energy", "output", "reputation", "money"] as const
-export const resourceSchema = z.enum(RESOURCES)
+export const coreResourceSchema = z.enum(RESOURCES)
 
-export type Resource = z.infer<typeof resourceSchema>
+export type CoreResource = z.infer<typeof coreResourceSchema>
 
+// A core resource or the id of a declared one, ContentValidation checks that declared ids exist
+export const resourceSchema = z.string().min(1)
+
+// Core ids keep their autocompletion, `string & {}` stops TypeScript from widening the union to plain string
+export type Resource = CoreResource | (string & {})
+
+// Core resources are always present, declared ones only once they are used
 export const resourcesSchema = z.object({
   energy: nonNegativeIntegerSchema,
   output: nonNegativeIntegerSchema,
   reputation: nonNegativeIntegerSchema,
   money: nonNegativeIntegerSchema,
-})
+}).catchall(nonNegativeIntegerSchema)
 
 export type Resources = z.infer<typeof resourcesSchema>
 
-export const resourceRateSchema = resourceSchema.extract(["energy", "money"])
+// Exact amounts, used for balances, rates and costs that may outgrow numbers in "big" number mode
+export type ResourceAmounts = Record<CoreResource, BigNumber> & Record<Resource, BigNumber>
+
+export function createResourceAmounts(): ResourceAmounts {
+  return {
+    energy: BigNumber.ZERO,
+    output: BigNumber.ZERO,
+    reputation: BigNumber.ZERO,
+    money: BigNumber.ZERO,
+  }
+}
+
+// Saved balances, strings in "big" number mode
+export const resourcesSnapshotSchema = z.object({
+  energy: bigNumberSchema,
+  output: bigNumberSchema,
+  reputation: bigNumberSchema,
+  money: bigNumberSchema,
+}).catchall(bigNumberSchema)
+
+export type ResourcesSnapshot = z.infer<typeof resourcesSnapshotSchema>
+
+export function toResourcesSnapshot(amounts: ResourceAmounts, mode: NumberMode): ResourcesSnapshot {
+  const snapshot: ResourcesSnapshot = { energy: 0, output: 0, reputation: 0, money: 0 }
+  for (const [resource, amount] of Object.entries(amounts)) {
+    snapshot[resource] = toAmountSnapshot(amount, mode)
+  }
+  return snapshot
+}
+
+// Saves of either mode load in both, "standard" mode caps amounts it can't hold. Amounts of resources
+// the content no longer declares are kept, so they come back if the declaration does.
+export function fromResourcesSnapshot(snapshot: Partial<ResourcesSnapshot>, mode: NumberMode): ResourceAmounts {
+  const amounts = createResourceAmounts()
+  for (const [resource, amount] of Object.entries(snapshot)) {
+    if (amount !== undefined) {
+      amounts[resource] = fitResourceAmount(BigNumber.from(amount).floor(), mode)
+    }
+  }
+  return amounts
+}
 
 export const gainMultipliers = [
   "energyGain",
@@ -66,10 +116,25 @@ export function createFlatGainsMap(initialValue: number): FlatGainsMap {
   return map
 }
 
+export const modifierStackingSchema = z.enum(["multiplicative", "additive"])
+
+export type ModifierStacking = z.infer<typeof modifierStackingSchema>
+
+// Optional on every multiplier effect in content. Multiplicative effects (the default) multiply, once per level.
+// Additive effects sharing a group add up their bonuses (1.2 at level 3 is +60%) and the group sum multiplies.
+// Cap and floor bound the target's final multiplier while the effect is active, on top of config.multiplierLimits.
+export const modifierStackingShape = {
+  stacking: modifierStackingSchema.optional(),
+  group: z.string().optional(), // Additive group, one per target when omitted
+  cap: nonNegativeNumberSchema.optional(),
+  floor: nonNegativeNumberSchema.optional(),
+}
+
 export const multipliersSchema = z.object({
   type: z.literal("multiplier"),
   target: z.enum(gainMultipliers),
   value: nonNegativeNumberSchema,
+  ...modifierStackingShape,
   id: z.string().optional(),
   duration: nonNegativeIntegerSchema.optional(),
 })
@@ -136,7 +201,7 @@ export const upgradesSnapshotSchema = z.object({
 export type UpgradesSnapshot = z.infer<typeof upgradesSnapshotSchema>
 
 export const achievementsSnapshotSchema = z.object({
-  totalResources: z.record(resourceSchema, nonNegativeIntegerSchema),
+  totalResources: z.record(resourceSchema, bigNumberSchema),
   totalWorkers: nonNegativeIntegerSchema,
   totalArticlesOpened: nonNegativeIntegerSchema,
   maxLevelReached: nonNegativeIntegerSchema,
@@ -162,6 +227,15 @@ export const prestigeSnapshotSchema = z.object({
 
 export type PrestigeSnapshot = z.infer<typeof prestigeSnapshotSchema>
 
+// Player settings only, which managers are unlocked follows from the upgrades
+export const managersSnapshotSchema = z.object({
+  disabledManagers: stringsArraySchema,
+  reserves: z.record(resourceSchema, bigNumberSchema),
+  reserveForWorkers: z.boolean(),
+})
+
+export type ManagersSnapshot = z.infer<typeof managersSnapshotSchema>
+
 export const STORES_TO_SYNC = [
   "resources",
   "workers",
@@ -171,12 +245,19 @@ export const STORES_TO_SYNC = [
   "achievements",
   "upgrades",
   "prestige",
+  "managers",
 ] as const
 
+export type SyncedStoreName = typeof STORES_TO_SYNC[number]
+
 export const gameSaveSchema = z.object({
   version: z.string(),
   timestamp: z.number(),
-  resources: resourcesSchema,
+  // Engine save format, see ENGINE_SAVE_VERSION. Missing in older saves, SaveMigrator sets it.
+  engineVersion: z.string().optional(),
+  // Resolved engine config the save was written with, missing in older saves
+  config: z.record(z.string(), z.unknown()).optional(),
+  resources: resourcesSnapshotSchema,
   workers: workersSnapshotSchema,
   operations: operationsSnapshotSchema,
   codex: codexSnapshotSchema,
@@ -184,6 +265,8 @@ export const gameSaveSchema = z.object({
   achievements: achievementsSnapshotSchema,
   upgrades: upgradesSnapshotSchema,
   prestige: prestigeSnapshotSchema,
+  // Missing in older saves
+  managers: managersSnapshotSchema.default({ disabledManagers: [], reserves: {}, reserveForWorkers: false }),
 })
 
 export type GameSaveSnapshot = z.infer<typeof gameSaveSchema>